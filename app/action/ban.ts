@@ -0,0 +1,301 @@
+// app/action/ban.ts
+//
+// Server Actions for banning and suspending users.
+// - Site-wide bans: admins and site moderators
+// - Topic bans: also the topic's owner and moderators
+//   (topic moderators can't ban the owner or fellow moderators, nor lift
+//   bans the owner or site staff placed - only the owner and staff can)
+// A ban without an end date lasts until it is lifted; a suspension ends by itself.
+// Both are recorded in the audit log.
+
+// "use server" directive - marks this file as containing Server Actions
+// Server Actions run on the server, not in the browser
+'use server'
+
+// Import NextAuth function for server-side session retrieval
+// getServerSession - gets the user session on the server (secure)
+import { getServerSession } from "next-auth";
+
+// Import NextAuth configuration
+// authOptions contains our authentication setup
+import { authOptions } from "@/lib/auth";
+
+// Import Prisma client instance
+// Prisma is an ORM for type-safe database operations
+import { prisma } from "@/lib";
+
+// Import permission helper
+// can - decides who may ban (staff site-wide, topic staff in their topic)
+import { can, isTopicStaff, leadsTopic } from "@/lib/permissions";
+
+// Topic owner + moderators select, user lookup
+import { topicRolesSelect } from "@/lib/query/topic";
+import { findUserByNameOrEmail } from "@/lib/query/user";
+
+// Audit log
+import { recordAudit } from "@/lib/audit";
+
+// Import Next.js cache revalidation function
+// revalidatePath - invalidates cached data for a specific path
+import { revalidatePath } from "next/cache";
+
+// Import Zod validation library
+// Zod provides runtime type validation and parsing
+import { z } from "zod";
+
+/**
+ * Zod Validation Schema
+ *
+ * - user: name or email of the user to ban
+ * - topic: topic slug ("" = site-wide)
+ * - until: day a suspension ends, YYYY-MM-DD ("" = permanent ban)
+ *   The user can write again from the start of that day (UTC)
+ * - reason: shown to the banned user
+ */
+const banUserSchema = z.object({
+    user: z.string().trim().min(1, { message: "Enter a name or email" }),
+    topic: z.string().trim(),
+    until: z.union([
+        z.literal(""),
+        z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Pick a date" })
+    ]),
+    reason: z.string().trim().min(3).max(500)
+});
+
+/**
+ * TypeScript Type for the ban form
+ *
+ * success is set after a save so the form can show a confirmation
+ */
+export type BanFormState = {
+    success?: boolean;
+    errors: {
+        user?: string[];
+        topic?: string[];
+        until?: string[];
+        reason?: string[];
+        formError?: string[];
+    }
+}
+
+/**
+ * Server Action: banUser
+ *
+ * Flow:
+ * 1. Validate form data with Zod
+ * 2. Check user authentication
+ * 3. Load the topic (topic bans) and check the user may ban there
+ * 4. Find the user to ban (not yourself, not an admin; only admins ban moderators;
+ *    only staff and the owner ban the topic's owner and moderators)
+ * 5. Store the ban and record it in the audit log
+ * 6. Revalidate the bans page
+ *
+ * @param prevState - Previous form state
+ * @param formData - Form data (user, topic, until, reason)
+ * @returns Promise<BanFormState> - Form state with errors if any
+ */
+export const banUser = async (
+    prevState: BanFormState,
+    formData: FormData
+): Promise<BanFormState> => {
+    const result = banUserSchema.safeParse({
+        user: formData.get('user'),
+        topic: formData.get('topic') ?? '',
+        until: formData.get('until') ?? '',
+        reason: formData.get('reason')
+    });
+
+    if (!result.success) {
+        return {
+            errors: result.error.flatten().fieldErrors
+        }
+    }
+
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user || !session.user.id) {
+        return {
+            errors: {
+                formError: ['You must be logged in to ban users']
+            }
+        }
+    }
+
+    // Topic bans need the topic's roles for the permission check
+    const topic = result.data.topic
+        ? await prisma.topic.findUnique({
+            where: { slug: result.data.topic },
+            select: { id: true, slug: true, ...topicRolesSelect }
+        })
+        : null;
+
+    if (result.data.topic && !topic) {
+        return {
+            errors: {
+                topic: ['Topic not found']
+            }
+        }
+    }
+
+    // Authorization check: staff (site-wide), topic staff (their topic) - see lib/permissions.ts
+    if (!can(session.user, "ban", { topic: topic ?? undefined })) {
+        return {
+            errors: {
+                formError: [topic ? 'You are not allowed to ban users from this topic' : 'Only admins and moderators can ban users site-wide']
+            }
+        }
+    }
+
+    // Suspensions end at the start of the chosen day (UTC)
+    const expiresAt = result.data.until ? new Date(result.data.until) : null;
+
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+        return {
+            errors: {
+                until: ['Pick a date in the future']
+            }
+        }
+    }
+
+    const user = await findUserByNameOrEmail(result.data.user);
+
+    if (!user) {
+        return {
+            errors: {
+                user: ['No single user found with that name or email']
+            }
+        }
+    }
+
+    if (user.id === session.user.id) {
+        return {
+            errors: {
+                user: ['You cannot ban yourself']
+            }
+        }
+    }
+
+    // Admins can't be banned, moderators only by admins
+    if (user.role === 'ADMIN' || (user.role === 'MODERATOR' && session.user.role !== 'ADMIN')) {
+        return {
+            errors: {
+                user: [`You are not allowed to ban ${user.name || 'this user'}`]
+            }
+        }
+    }
+
+    // Topic moderators can't ban the people running the topic with them
+    if (topic && !leadsTopic(session.user, topic) && isTopicStaff(user, topic)) {
+        return {
+            errors: {
+                user: [`You are not allowed to ban ${user.name || 'this user'} from this topic`]
+            }
+        }
+    }
+
+    const ban = await prisma.ban.create({
+        data: {
+            userId: user.id,
+            topicId: topic?.id ?? null,
+            reason: result.data.reason,
+            expiresAt,
+            createdById: session.user.id
+        }
+    });
+
+    await recordAudit({
+        actor: session.user,
+        action: "user.ban",
+        targetType: "user",
+        targetId: user.id,
+        after: {
+            banId: ban.id,
+            name: user.name,
+            topic: topic?.slug ?? null,
+            expiresAt: expiresAt?.toISOString() ?? null
+        },
+        reason: result.data.reason
+    });
+
+    revalidatePath('/mod/bans');
+
+    return {
+        success: true,
+        errors: {}
+    }
+}
+
+/**
+ * Server Action: liftBan
+ *
+ * Ends a ban or suspension early. The ban row stays as history.
+ * Nobody lifts their own ban. Bans of moderators and bans placed by
+ * admins are lifted by admins only.
+ * Topic moderators can't lift bans of the topic's owner or moderators,
+ * nor bans the owner or site staff placed.
+ *
+ * @param banId - Ban to lift
+ */
+export const liftBan = async (banId: string) => {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user || !session.user.id) {
+        throw new Error('You must be logged in to lift bans');
+    }
+
+    const ban = await prisma.ban.findUnique({
+        where: { id: String(banId) },
+        select: {
+            id: true,
+            userId: true,
+            liftedAt: true,
+            user: { select: { id: true, role: true } },
+            createdBy: { select: { id: true, role: true } },
+            topic: { select: { slug: true, ...topicRolesSelect } }
+        }
+    });
+
+    if (!ban || ban.liftedAt) {
+        throw new Error('Ban not found');
+    }
+
+    // Same rule as banning - see lib/permissions.ts
+    if (!can(session.user, "ban", { topic: ban.topic ?? undefined })) {
+        throw new Error('You are not allowed to lift this ban');
+    }
+
+    if (ban.userId === session.user.id) {
+        throw new Error('You cannot lift your own ban');
+    }
+
+    // Moderators are banned by admins only - and only admins undo an admin's ban
+    if ((ban.user.role === 'MODERATOR' || ban.createdBy?.role === 'ADMIN') && session.user.role !== 'ADMIN') {
+        throw new Error('Only admins can lift this ban');
+    }
+
+    // Same ranks as banning
+    if (ban.topic && !leadsTopic(session.user, ban.topic) && (
+        isTopicStaff(ban.user, ban.topic) ||
+        (ban.createdBy && leadsTopic(ban.createdBy, ban.topic))
+    )) {
+        throw new Error('Only the topic owner or site staff can lift this ban');
+    }
+
+    await prisma.ban.update({
+        where: { id: ban.id },
+        data: {
+            liftedAt: new Date(),
+            liftedById: session.user.id
+        }
+    });
+
+    await recordAudit({
+        actor: session.user,
+        action: "user.unban",
+        targetType: "user",
+        targetId: ban.userId,
+        before: { banId: ban.id, topic: ban.topic?.slug ?? null }
+    });
+
+    revalidatePath('/mod/bans');
+}
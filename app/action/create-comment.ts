@@ -15,6 +15,21 @@ import { authOptions } from "@/lib/auth";
 // Prisma is an ORM (Object-Relational Mapping) that provides type-safe database access
 import { prisma } from "@/lib";
 
+// Ban / suspension check (lib/bans.ts)
+// findActiveBan - finds a restriction that stops the user from writing
+// describeBan - explains it (reason, scope, end date)
+import { findActiveBan, describeBan } from "@/lib/bans";
+
+// Notifications (reply to a post / comment, @mentions)
+import { notifyNewComment } from "@/lib/notifications";
+
+// Live updates for people viewing the post
+import { publishCommentEvent } from "@/lib/comment-events";
+
+// Import TypeScript type from Prisma
+// Comment is the TypeScript type generated from our Prisma schema
+import { Comment } from "@prisma/client";
+
 // Import Next.js cache revalidation function
 // revalidatePath - tells Next.js to invalidate cached data for a specific path
 // This ensures pages show fresh data after creating a comment
@@ -65,9 +80,13 @@ type CreateCommentState = {
  * Flow:
  * 1. Validate form data with Zod
  * 2. Check user authentication
- * 3. Create comment in database
- * 4. Find topic for cache revalidation
- * 5. Revalidate cache and return success
+ * 3. Refuse banned / suspended users (site-wide or in this topic)
+ *    and locked / archived posts
+ * 4. Make sure the parent comment (if any) isn't deleted
+ * 5. Create comment in database (and bump the post's last activity)
+ * 6. Notify the author of the post / parent comment and mentioned users
+ * 7. Find topic for cache revalidation
+ * 8. Revalidate cache and return success
  * 
  * @param params - Object containing postId and optional parentId
  * @param prevState - Previous form state
@@ -115,21 +134,83 @@ export const createComment = async (
         }
     }
 
+    // Find the post's topic - banned / suspended users can't comment there
+    const post = await prisma.post.findUnique({
+        where: { id: postId },
+        select: { topicId: true, lockedAt: true, archivedAt: true }
+    });
+
+    if (!post) {
+        return {
+            errors: {
+                formError: ['Post not found']
+            }
+        }
+    }
+
+    // Locked and archived threads take no new comments
+    if (post.lockedAt || post.archivedAt) {
+        return {
+            errors: {
+                formError: [post.lockedAt ? 'This post is locked' : 'This post is archived']
+            }
+        }
+    }
+
+    const ban = await findActiveBan(session.user.id, post.topicId);
+
+    if (ban) {
+        return {
+            errors: {
+                formError: [describeBan(ban)]
+            }
+        }
+    }
+
+    // If this is a reply, make sure the parent can still be replied to
+    // Deleted comments are only kept as tombstones for their existing replies
+    if (parentId) {
+        const parent = await prisma.comment.findUnique({
+            where: { id: parentId },
+            select: { deletedAt: true }
+        });
+
+        if (!parent || parent.deletedAt) {
+            return {
+                errors: {
+                    formError: ['You can not reply to a deleted comment']
+                }
+            }
+        }
+    }
+
+    // Declare variable to hold the created comment
+    // Type: Comment (from Prisma schema)
+    let comment: Comment;
+
     // Try to create the comment in the database
     // try/catch - handles potential database errors
     try {
         // Prisma create operation - inserts new comment record
         // await - waits for database operation to complete
-        await prisma.comment.create({
-            // data - the data to insert into the database
-            data: {
-                content: result.data.content,    // Validated content from Zod
-                postId: postId,                  // ID of the post (from function parameter)
-                userId: session.user.id,         // ID of the logged-in user
-                parentId: parentId               // ID of parent comment (if replying, otherwise undefined/null)
-                // If parentId is undefined, Prisma will set it to null (top-level comment)
-            }
-        });
+        // $transaction - the comment and the post's activity time are saved together
+        [comment] = await prisma.$transaction([
+            prisma.comment.create({
+                // data - the data to insert into the database
+                data: {
+                    content: result.data.content,    // Validated content from Zod
+                    postId: postId,                  // ID of the post (from function parameter)
+                    userId: session.user.id,         // ID of the logged-in user
+                    parentId: parentId               // ID of parent comment (if replying, otherwise undefined/null)
+                    // If parentId is undefined, Prisma will set it to null (top-level comment)
+                }
+            }),
+            // A new comment keeps the thread from being auto-archived
+            prisma.post.update({
+                where: { id: postId },
+                data: { lastActivityAt: new Date() }
+            })
+        ]);
 
     } catch (error: unknown) {
         // Handle database errors
@@ -153,6 +234,17 @@ export const createComment = async (
         }
     }
 
+    // Let the people replied to / mentioned know
+    await notifyNewComment(comment);
+
+    // Viewers of the post get a "new replies" notice
+    await publishCommentEvent(postId, {
+        type: "created",
+        commentId: comment.id,
+        parentId: comment.parentId,
+        actorId: session.user.id
+    });
+
     // Find the topic that contains this post
     // We need the topic slug to revalidate the correct page cache
     // findFirst - returns the first matching record or null
@@ -15,6 +15,14 @@ import { authOptions } from "@/lib/auth";
 // Prisma is an ORM for type-safe database operations
 import { prisma } from "@/lib"; 
 
+// Ban / suspension check (lib/bans.ts)
+// findActiveBan - finds a restriction that stops the user from writing
+// describeBan - explains it (reason, scope, end date)
+import { findActiveBan, describeBan } from "@/lib/bans";
+
+// Notifications (@mentions)
+import { notifyNewPost } from "@/lib/notifications";
+
 // Import TypeScript type from Prisma generated types
 // Post type matches the Post model in our Prisma schema
 import { Post } from "@prisma/client";
@@ -76,8 +84,10 @@ type CreatePostFormState = {
  * 1. Validate form data with Zod
  * 2. Check user authentication
  * 3. Verify topic exists
- * 4. Create post in database
- * 5. Revalidate cache and redirect to post page
+ * 4. Refuse banned / suspended users
+ * 5. Create post in database
+ * 6. Notify users mentioned in it
+ * 7. Revalidate cache and redirect to post page
  * 
  * @param slug - Topic slug (URL-friendly identifier)
  * @param prevState - Previous form state
@@ -130,8 +140,14 @@ export const createPost = async (
     // Find the topic in the database using the slug
     // findFirst - returns the first matching record or null
     // where - specifies the search condition
+    // A former slug (the topic was renamed meanwhile) finds the topic too
     const topic = await prisma.topic.findFirst({
-        where: { slug }  // Find topic where slug matches the provided slug
+        where: {
+            OR: [
+                { slug },                              // Current slug
+                { aliases: { some: { slug } } }        // Former slug
+            ]
+        }
     });
     
     // Check if topic was not found
@@ -144,6 +160,17 @@ export const createPost = async (
         }
     }
     
+    // Banned / suspended users can't post (site-wide or in this topic)
+    const ban = await findActiveBan(session.user.id, topic.id);
+
+    if (ban) {
+        return {
+            errors: {
+                formError: [describeBan(ban)]
+            }
+        }
+    }
+
     // Declare variable to hold the created post
     // Type: Post (from Prisma schema)
     let post: Post;
@@ -184,14 +211,17 @@ export const createPost = async (
         }
     }
  
+    // Let mentioned users know
+    await notifyNewPost(post);
+
     // Revalidate the topic page cache
     // `/topic/${slug}` - the topic page path (e.g., "/topic/javascript")
     // This ensures the new post appears in the post list immediately
-    revalidatePath(`/topic/${slug}`);
+    revalidatePath(`/topic/${topic.slug}`);
     
     // Redirect user to the newly created post page
     // redirect() throws an error internally (expected behavior) to stop execution
     // post.id - the ID of the post we just created
     // Example redirect: /topic/javascript/posts/abc123
-    redirect(`/topic/${slug}/posts/${post.id}`);
+    redirect(`/topic/${topic.slug}/posts/${post.id}`);
 }
@@ -18,6 +18,14 @@ import { authOptions } from "@/lib/auth";
 // It provides type-safe database queries
 import { prisma } from "@/lib";
 
+// Ban / suspension check (lib/bans.ts)
+// findActiveBan - finds a restriction that stops the user from writing
+// describeBan - explains it (reason, scope, end date)
+import { findActiveBan, describeBan } from "@/lib/bans";
+
+// Topic name rule (shared with renaming)
+import { topicNameSchema } from "./topic-name";
+
 // Import TypeScript type from Prisma
 // Topic is the TypeScript type generated from our Prisma schema
 // This gives us type safety when working with Topic objects
@@ -42,19 +50,12 @@ import { z } from "zod";
  * 
  * This schema defines the validation rules for creating a topic:
  * - name: must be a string, minimum 3 characters, lowercase letters and hyphens only
+ *   (see topic-name.ts)
  * - description: must be a string, minimum 10 characters
- * 
- * The regex /^[a-z-]+$/ ensures:
- * - ^ - start of string
- * - [a-z-] - lowercase letters or hyphens
- * - + - one or more characters
- * - $ - end of string
- * Example valid: "javascript", "react-native", "node-js"
- * Example invalid: "JavaScript" (uppercase), "react native" (space)
  */
 const createTopicSchema = z.object({
     // name must be lowercase letters and hyphens only (for URL-friendly slugs)
-    name: z.string().min(3).regex(/^[a-z-]+$/, { message: "Must be lowercase letter without spaces" }),
+    name: topicNameSchema,
     // description must be at least 10 characters long
     description: z.string().min(10)
 })
@@ -89,9 +90,10 @@ type CreateTopicFormState = {
  * Flow:
  * 1. Validate form data using Zod
  * 2. Check if user is authenticated
- * 3. Create topic in database using Prisma
- * 4. Revalidate cache
- * 5. Redirect to the new topic page
+ * 3. Refuse site-wide banned / suspended users
+ * 4. Create topic in database using Prisma (the creator becomes its owner)
+ * 5. Revalidate cache
+ * 6. Redirect to the new topic page
  * 
  * @param prevState - Previous form state (contains previous errors)
  * @param formData - Form data from the HTML form (title, description, etc.)
@@ -140,6 +142,31 @@ export const createTopics = async (
         }
     }
     
+    // Banned / suspended users can't create topics
+    // (no topic yet, so only site-wide restrictions apply)
+    const ban = await findActiveBan(session.user.id);
+
+    if (ban) {
+        return {
+            errors: {
+                formError: [describeBan(ban)]
+            }
+        }
+    }
+
+    // Former names of renamed topics still redirect to them - they stay taken
+    const alias = await prisma.topicAlias.findUnique({
+        where: { slug: result.data.name }
+    });
+
+    if (alias) {
+        return {
+            errors: {
+                name: ['That name is taken']
+            }
+        }
+    }
+
     // Declare variable to hold the created topic
     // Type: Topic (from Prisma schema)
     let topic: Topic;
@@ -156,7 +183,9 @@ export const createTopics = async (
                 // result.data.name - the validated name from Zod
                 slug: result.data.name,
                 // description - the validated description from Zod
-                description: result.data.description
+                description: result.data.description,
+                // ownerId - whoever creates a topic owns (and can manage) it
+                ownerId: session.user.id
             }
         })
     } catch (error) {
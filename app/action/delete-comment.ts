@@ -0,0 +1,113 @@
+// app/action/delete-comment.ts
+//
+// Server Action for deleting comments.
+// Comments are soft-deleted: they become a "[deleted]" tombstone so
+// replies underneath them stay visible.
+// The comment owner, moderators (site or topic) and admins can delete a comment - see lib/permissions.ts.
+
+// "use server" directive - marks this file as containing Server Actions
+// Server Actions run on the server, not in the browser
+'use server'
+
+// Import NextAuth function for server-side session retrieval
+// getServerSession - gets the user session on the server (secure)
+import { getServerSession } from "next-auth";
+
+// Import NextAuth configuration
+// authOptions contains our authentication setup
+import { authOptions } from "@/lib/auth";
+
+// Import Prisma client instance
+// Prisma is an ORM for type-safe database operations
+import { prisma } from "@/lib";
+
+// Import permission helper
+// can - decides who may edit/delete content (owner, moderators, admins)
+import { can } from "@/lib/permissions";
+
+// Topic owner + moderators (they can remove comments in their topic)
+import { topicRolesSelect } from "@/lib/query/topic";
+
+// Tombstone + purge routine (shared with the moderation queue)
+import { removeComment } from "@/lib/content";
+
+// Import Next.js cache revalidation function
+// revalidatePath - invalidates cached data for a specific path
+import { revalidatePath } from "next/cache";
+
+/**
+ * Server Action: deleteComment
+ *
+ * Soft-deletes a comment. Only the comment owner, a moderator or an admin can delete.
+ *
+ * Parameters:
+ * - commentId: The ID of the comment to delete
+ *
+ * Flow:
+ * 1. Check user authentication
+ * 2. Verify comment exists (and isn't deleted already)
+ * 3. Check the user may delete it (permission helper)
+ * 4. Turn the comment into a tombstone (see lib/content.ts)
+ * 5. Revalidate the post page
+ *
+ * @param commentId - Comment ID to delete
+ */
+export const deleteComment = async (commentId: string) => {
+    // Get the current user's session from the server
+    // This verifies the user is logged in
+    const session = await getServerSession(authOptions);
+
+    // Check if user is NOT authenticated
+    if (!session || !session.user || !session.user.id) {
+        // Throw error - user must be logged in
+        throw new Error('You must be logged in to delete comments');
+    }
+
+    // Find the comment in the database
+    // We need its owner, its state and the topic slug (for revalidation)
+    const comment = await prisma.comment.findUnique({
+        where: { id: commentId },
+        select: {
+            id: true,
+            userId: true,     // We need this to check ownership
+            deletedAt: true,  // Already a tombstone?
+            postId: true,
+            post: {
+                select: {
+                    topic: {
+                        select: {
+                            slug: true,  // We need this for revalidation
+                            ...topicRolesSelect  // Topic owner/moderators can delete too
+                        }
+                    }
+                }
+            }
+        }
+    });
+
+    // Check if comment was not found (or was already deleted)
+    if (!comment || comment.deletedAt) {
+        throw new Error('Comment not found');
+    }
+
+    // Authorization check: owner or moderator/admin - see lib/permissions.ts
+    if (!can(session.user, "delete", { userId: comment.userId, topic: comment.post.topic })) {
+        throw new Error('You are not allowed to delete this comment');
+    }
+
+    // Turn the comment into a tombstone (and purge it if it has no replies)
+    try {
+        await removeComment(comment, { actor: session.user });
+    } catch (error: unknown) {
+        // Handle database errors
+        if (error instanceof Error) {
+            throw new Error(`Failed to delete comment: ${error.message}`);
+        } else {
+            throw new Error('Failed to delete comment');
+        }
+    }
+
+    // Revalidate the post page cache
+    // This ensures the tombstone appears immediately
+    revalidatePath(`/topic/${comment.post.topic.slug}/posts/${comment.postId}`);
+}
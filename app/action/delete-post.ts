@@ -1,7 +1,7 @@
 // app/action/delete-post.ts
 //
 // Server Action for deleting posts.
-// Only the post owner can delete their own posts.
+// The post owner, moderators (site or topic) and admins can delete a post - see lib/permissions.ts.
 
 // "use server" directive - marks this file as containing Server Actions
 // Server Actions run on the server, not in the browser
@@ -23,6 +23,16 @@ import { prisma } from "@/lib";
 // revalidatePath - invalidates cached data for a specific path
 import { revalidatePath } from "next/cache";
 
+// Import permission helper
+// can - decides who may edit/delete content (owner, moderators, admins)
+import { can } from "@/lib/permissions";
+
+// Topic owner + moderators (they can remove posts in their topic)
+import { topicRolesSelect } from "@/lib/query/topic";
+
+// Removal helper (shared with the moderation queue)
+import { removePost } from "@/lib/content";
+
 // Import Next.js navigation redirect function
 // redirect - sends user to a different URL
 import { redirect } from "next/navigation";
@@ -30,7 +40,7 @@ import { redirect } from "next/navigation";
 /**
  * Server Action: deletePost
  * 
- * Deletes a post. Only the post owner can delete.
+ * Deletes a post. Only the post owner, a moderator or an admin can delete.
  * 
  * Parameters:
  * - postId: The ID of the post to delete
@@ -39,7 +49,7 @@ import { redirect } from "next/navigation";
  * Flow:
  * 1. Check user authentication
  * 2. Verify post exists
- * 3. Verify user owns the post (authorization)
+ * 3. Check the user may delete it (permission helper)
  * 4. Delete post from database
  * 5. Revalidate cache and redirect to topic page
  * 
@@ -64,6 +74,9 @@ export const deletePost = async (postId: string, slug: string) => {
         select: {
             id: true,
             userId: true,  // We need this to check ownership
+            topic: {
+                select: topicRolesSelect  // Topic owner/moderators can delete too
+            }
         }
     });
     
@@ -72,19 +85,16 @@ export const deletePost = async (postId: string, slug: string) => {
         throw new Error('Post not found');
     }
 
-    // Authorization check: Verify user owns the post
-    // Only the post owner can delete their post
-    if (post.userId !== session.user.id) {
-        throw new Error('You can only delete your own posts');
+    // Authorization check: owner or moderator/admin - see lib/permissions.ts
+    if (!can(session.user, "delete", post)) {
+        throw new Error('You are not allowed to delete this post');
     }
 
     // Try to delete the post from the database
     try {
-        // Prisma delete operation - removes the post record
+        // Removes the post record
         // This will also delete related comments (cascade delete from schema)
-        await prisma.post.delete({
-            where: { id: postId }
-        });
+        await removePost(post.id, { actor: session.user });
     } catch (error: unknown) {
         // Handle database errors
         if (error instanceof Error) {
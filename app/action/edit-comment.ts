@@ -0,0 +1,257 @@
+// app/action/edit-comment.ts
+//
+// Server Action for editing comments.
+// The comment owner (or an admin) can edit a comment - see lib/permissions.ts.
+// Every edit stores the previous text as a CommentRevision (edit history).
+
+// "use server" directive - marks this file as containing Server Actions
+// Server Actions run on the server, not in the browser
+'use server'
+
+// Import NextAuth function for server-side session retrieval
+// getServerSession - gets the user session on the server (secure)
+import { getServerSession } from "next-auth";
+
+// Import NextAuth configuration
+// authOptions contains our authentication setup
+import { authOptions } from "@/lib/auth";
+
+// Import Prisma client instance
+// Prisma is an ORM for type-safe database operations
+import { prisma } from "@/lib";
+
+// Ban / suspension check (lib/bans.ts)
+// findActiveBan - finds a restriction that stops the user from writing
+// describeBan - explains it (reason, scope, end date)
+import { findActiveBan, describeBan } from "@/lib/bans";
+
+// Import Next.js cache revalidation function
+// revalidatePath - invalidates cached data for a specific path
+import { revalidatePath } from "next/cache";
+
+// Import permission helper
+// can - decides who may edit/delete content (owner, moderators, admins)
+import { can } from "@/lib/permissions";
+
+// Audit log (edits of other people's comments)
+import { recordAudit } from "@/lib/audit";
+
+// Live updates for people viewing the post
+import { publishCommentEvent } from "@/lib/comment-events";
+
+// Import Zod validation library
+// Zod provides runtime type validation and parsing
+import { z } from "zod";
+
+/**
+ * Zod Validation Schema for Comment Editing
+ *
+ * Same rules as comment creation:
+ * - content: string, minimum 3 characters
+ */
+const editCommentSchema = z.object({
+    content: z.string().min(3)  // Comment must be at least 3 characters long
+});
+
+/**
+ * TypeScript Type for Edit Comment Form State
+ *
+ * Matches the structure returned by the server action
+ * Used by useActionState hook in CommentEditForm component
+ *
+ * success is set after a saved edit so the form can close itself
+ */
+export type EditCommentFormState = {
+    success?: boolean;          // Optional: true once the edit was saved
+    errors: {
+        content?: string[];     // Optional: validation errors for content field
+        formError?: string[];   // Optional: general form errors (auth, authorization, etc.)
+    }
+}
+
+/**
+ * Server Action: editComment
+ *
+ * Updates an existing comment. Only the comment owner (or an admin) can edit.
+ *
+ * Parameters:
+ * - commentId: The ID of the comment to edit
+ * - prevState: Previous form state from useActionState
+ * - formData: Form data from HTML form (content)
+ *
+ * Flow:
+ * 1. Validate form data with Zod
+ * 2. Check user authentication
+ * 3. Verify comment exists
+ * 4. Check the user may edit it (permission helper) and isn't banned
+ * 5. Save old content as a revision and update the comment (one transaction)
+ * 6. Record the edit in the audit log (someone else's comment only)
+ * 7. Revalidate the post page
+ *
+ * @param commentId - Comment ID to edit
+ * @param prevState - Previous form state
+ * @param formData - Form data from the form submission
+ * @returns Promise<EditCommentFormState> - Form state with errors if validation fails
+ */
+export const editComment = async (
+    commentId: string,                // Comment ID to edit
+    prevState: EditCommentFormState,  // Previous form state
+    formData: FormData                // Form data from HTML form
+): Promise<EditCommentFormState> => {
+
+    // Validate form data using Zod schema
+    // safeParse - validates without throwing errors
+    const result = editCommentSchema.safeParse({
+        content: formData.get('content')
+    });
+
+    // Check if validation failed
+    if (!result.success) {
+        // Return validation errors to the client
+        return {
+            errors: result.error.flatten().fieldErrors
+        }
+    }
+
+    // Get the current user's session from the server
+    // This verifies the user is logged in
+    const session = await getServerSession(authOptions);
+
+    // Check if user is NOT authenticated
+    if (!session || !session.user || !session.user.id) {
+        // Return authentication error
+        return {
+            errors: {
+                formError: ['You must be logged in to edit comments']
+            }
+        }
+    }
+
+    // Find the comment in the database
+    // We need its owner, its current content (for the revision)
+    // and the topic slug (for revalidation)
+    const comment = await prisma.comment.findUnique({
+        where: { id: commentId },
+        select: {
+            id: true,
+            userId: true,     // We need this to check ownership
+            content: true,    // We need this to store the previous version
+            deletedAt: true,  // Deleted comments can't be edited
+            parentId: true,   // Sent with the live update
+            postId: true,
+            post: {
+                select: {
+                    topicId: true,  // Topic bans apply to edits too
+                    topic: {
+                        select: {
+                            slug: true  // We need this for revalidation
+                        }
+                    }
+                }
+            }
+        }
+    });
+
+    // Check if comment was not found (or was deleted)
+    if (!comment || comment.deletedAt) {
+        return {
+            errors: {
+                formError: ['Comment not found']
+            }
+        }
+    }
+
+    // Authorization check: owner (or admin) - see lib/permissions.ts
+    if (!can(session.user, "edit", comment)) {
+        return {
+            errors: {
+                formError: ['You are not allowed to edit this comment']
+            }
+        }
+    }
+
+    // Banned / suspended users can't edit (site-wide or in this topic)
+    const ban = await findActiveBan(session.user.id, comment.post.topicId);
+
+    if (ban) {
+        return {
+            errors: {
+                formError: [describeBan(ban)]
+            }
+        }
+    }
+
+    // Nothing changed - don't create an empty revision
+    if (comment.content === result.data.content) {
+        return {
+            success: true,
+            errors: {}
+        }
+    }
+
+    // Try to update the comment in the database
+    try {
+        // $transaction - both writes succeed or neither does
+        // 1. Store the current (old) content as a revision
+        // 2. Overwrite the comment with the new content
+        await prisma.$transaction([
+            prisma.commentRevision.create({
+                data: {
+                    commentId: comment.id,
+                    content: comment.content  // Previous version of the comment
+                }
+            }),
+            prisma.comment.update({
+                where: { id: comment.id },
+                data: {
+                    content: result.data.content  // Validated content from Zod
+                }
+            })
+        ]);
+    } catch (error: unknown) {
+        // Handle database errors
+        if (error instanceof Error) {
+            return {
+                errors: {
+                    formError: [error.message]
+                }
+            }
+        } else {
+            return {
+                errors: {
+                    formError: ['Failed to update comment.']
+                }
+            }
+        }
+    }
+
+    // Editing someone else's comment (admins) goes into the audit log
+    if (comment.userId !== session.user.id) {
+        await recordAudit({
+            actor: session.user,
+            action: "comment.edit",
+            targetType: "comment",
+            targetId: comment.id,
+            before: { content: comment.content },
+            after: { content: result.data.content }
+        });
+    }
+
+    // Viewers of the post see the edit without reloading
+    await publishCommentEvent(comment.postId, {
+        type: "updated",
+        commentId: comment.id,
+        parentId: comment.parentId,
+        actorId: session.user.id
+    });
+
+    // Revalidate the post page cache
+    // This ensures the edited comment (and its history) appears immediately
+    revalidatePath(`/topic/${comment.post.topic.slug}/posts/${comment.postId}`);
+
+    // Return success state
+    return {
+        success: true,
+        errors: {}
+    }
+}
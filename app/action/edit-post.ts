@@ -1,7 +1,7 @@
 // app/action/edit-post.ts
 //
 // Server Action for editing/updating posts.
-// Only the post owner can edit their own posts.
+// The post owner (or an admin) can edit a post - see lib/permissions.ts.
 
 // "use server" directive - marks this file as containing Server Actions
 // Server Actions run on the server, not in the browser
@@ -19,6 +19,11 @@ import { authOptions } from "@/lib/auth";
 // Prisma is an ORM for type-safe database operations
 import { prisma } from "@/lib";
 
+// Ban / suspension check (lib/bans.ts)
+// findActiveBan - finds a restriction that stops the user from writing
+// describeBan - explains it (reason, scope, end date)
+import { findActiveBan, describeBan } from "@/lib/bans";
+
 // Import Next.js cache revalidation function
 // revalidatePath - invalidates cached data for a specific path
 import { revalidatePath } from "next/cache";
@@ -27,6 +32,13 @@ import { revalidatePath } from "next/cache";
 // redirect - sends user to a different URL
 import { redirect } from "next/navigation";
 
+// Import permission helper
+// can - decides who may edit/delete content (owner, moderators, admins)
+import { can } from "@/lib/permissions";
+
+// Audit log (edits of other people's posts)
+import { recordAudit } from "@/lib/audit";
+
 // Import Zod validation library
 // Zod provides runtime type validation and parsing
 import { z } from "zod";
@@ -60,7 +72,7 @@ type EditPostFormState = {
 /**
  * Server Action: editPost
  * 
- * Updates an existing post. Only the post owner can edit.
+ * Updates an existing post. Only the post owner (or an admin) can edit.
  * 
  * Parameters:
  * - postId: The ID of the post to edit
@@ -72,9 +84,10 @@ type EditPostFormState = {
  * 1. Validate form data with Zod
  * 2. Check user authentication
  * 3. Verify post exists
- * 4. Verify user owns the post (authorization)
+ * 4. Check the user may edit it (permission helper) and isn't banned
  * 5. Update post in database
- * 6. Revalidate cache and redirect to post page
+ * 6. Record the edit in the audit log (someone else's post only)
+ * 7. Revalidate cache and redirect to post page
  * 
  * @param postId - Post ID to edit
  * @param slug - Topic slug (for redirect)
@@ -125,6 +138,9 @@ export const editPost = async (
         select: {
             id: true,
             userId: true,  // We need this to check ownership
+            title: true,   // Previous version (audit log)
+            content: true,
+            topicId: true, // Topic bans apply to edits too
             topic: {
                 select: {
                     slug: true  // We need this for redirect
@@ -142,12 +158,22 @@ export const editPost = async (
         }
     }
 
-    // Authorization check: Verify user owns the post
-    // Only the post owner can edit their post
-    if (post.userId !== session.user.id) {
+    // Authorization check: owner (or admin) - see lib/permissions.ts
+    if (!can(session.user, "edit", { userId: post.userId })) {
         return {
             errors: {
-                formError: ['You can only edit your own posts']
+                formError: ['You are not allowed to edit this post']
+            }
+        }
+    }
+
+    // Banned / suspended users can't edit (site-wide or in this topic)
+    const ban = await findActiveBan(session.user.id, post.topicId);
+
+    if (ban) {
+        return {
+            errors: {
+                formError: [describeBan(ban)]
             }
         }
     }
@@ -179,6 +205,18 @@ export const editPost = async (
         }
     }
  
+    // Editing someone else's post (admins) goes into the audit log
+    if (post.userId !== session.user.id) {
+        await recordAudit({
+            actor: session.user,
+            action: "post.edit",
+            targetType: "post",
+            targetId: post.id,
+            before: { title: post.title, content: post.content },
+            after: { title: result.data.title, content: result.data.content }
+        });
+    }
+
     // Revalidate the post page cache
     // This ensures the updated post appears immediately
     revalidatePath(`/topic/${slug}/posts/${postId}`);
@@ -0,0 +1,66 @@
+// app/action/load-top-posts.ts
+//
+// Server Action behind the "Load more" button on the home page.
+// Returns the next page of top posts together with the viewer's votes.
+
+// "use server" directive - marks this file as containing Server Actions
+// Server Actions run on the server, not in the browser
+'use server'
+
+// Import NextAuth function for server-side session retrieval
+// getServerSession - gets the user session on the server (secure)
+import { getServerSession } from "next-auth";
+
+// Import NextAuth configuration
+// authOptions contains our authentication setup
+import { authOptions } from "@/lib/auth";
+
+// Query functions
+// fetchTopPosts - ranked, cursor-paged top posts
+// fetchViewerVotes - the viewer's votes for a list of posts
+import { fetchTopPosts, type PostPage, type TopPostsWindow } from "@/lib/query/post";
+import { fetchViewerVotes, type ViewerVotes } from "@/lib/query/vote";
+
+/**
+ * TypeScript Type: TopPostsPage
+ *
+ * A page of top posts plus the viewer's votes on them
+ */
+export type TopPostsPage = PostPage & {
+    viewerVotes: ViewerVotes;
+}
+
+/**
+ * Server Action: loadTopPosts
+ *
+ * Loads the page of top posts that comes after `cursor`.
+ *
+ * @param timeWindow - Time window of the ranking ("today", "week", "all")
+ * @param cursor - Id of the last post already shown
+ * @returns Promise<TopPostsPage> - Next posts, next cursor and viewer votes
+ */
+export const loadTopPosts = async (
+    timeWindow: TopPostsWindow,
+    cursor: string
+): Promise<TopPostsPage> => {
+    // Get the current user's session from the server
+    // Home page posts are only shown to logged-in users
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user || !session.user.id) {
+        throw new Error('You must be logged in');
+    }
+
+    // Fetch the next page (database does the ranking)
+    const page = await fetchTopPosts({ timeWindow, cursor });
+
+    // Viewer's votes on the new posts
+    const viewerVotes = await fetchViewerVotes(session.user.id, {
+        postIds: page.items.map((post) => post.id)
+    });
+
+    return {
+        ...page,
+        viewerVotes
+    }
+}
@@ -0,0 +1,107 @@
+// app/action/lock-post.ts
+//
+// Server Action for locking and unlocking posts.
+// Locked posts stay visible but take no new comments.
+// Moderators (site or topic) and admins can lock - see lib/permissions.ts.
+
+// "use server" directive - marks this file as containing Server Actions
+// Server Actions run on the server, not in the browser
+'use server'
+
+// Import NextAuth function for server-side session retrieval
+// getServerSession - gets the user session on the server (secure)
+import { getServerSession } from "next-auth";
+
+// Import NextAuth configuration
+// authOptions contains our authentication setup
+import { authOptions } from "@/lib/auth";
+
+// Import Prisma client instance
+// Prisma is an ORM for type-safe database operations
+import { prisma } from "@/lib";
+
+// Import permission helper
+// can - decides who may lock posts (staff, topic owner/moderators)
+import { can } from "@/lib/permissions";
+
+// Topic owner + moderators (they can lock posts in their topic)
+import { topicRolesSelect } from "@/lib/query/topic";
+
+// Audit log
+import { recordAudit } from "@/lib/audit";
+
+// Import Next.js cache revalidation function
+// revalidatePath - invalidates cached data for a specific path
+import { revalidatePath } from "next/cache";
+
+/**
+ * Server Action: setPostLock
+ *
+ * Locks an open post, or reopens a locked or archived one.
+ * Reopening also counts as activity, so the post isn't archived again
+ * by the next archive run.
+ * Takes the state the moderator asked for: a post already in that state
+ * (e.g. another moderator was quicker) is left alone, without an audit entry.
+ *
+ * Flow:
+ * 1. Check user authentication
+ * 2. Verify post exists
+ * 3. Check the user may lock it (permission helper)
+ * 4. Lock / reopen and record it in the audit log
+ * 5. Revalidate the post and topic pages
+ *
+ * @param postId - Post to lock or reopen
+ * @param locked - true to lock, false to reopen
+ */
+export const setPostLock = async (postId: string, locked: boolean) => {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user || !session.user.id) {
+        throw new Error('You must be logged in to lock posts');
+    }
+
+    const post = await prisma.post.findUnique({
+        where: { id: String(postId) },
+        select: {
+            id: true,
+            lockedAt: true,
+            archivedAt: true,
+            topic: { select: { slug: true, ...topicRolesSelect } }
+        }
+    });
+
+    if (!post) {
+        throw new Error('Post not found');
+    }
+
+    // Authorization check: staff, topic owner/moderators - see lib/permissions.ts
+    if (!can(session.user, "lock", post)) {
+        throw new Error('You are not allowed to lock this post');
+    }
+
+    // Only a post not yet in the wanted state changes - checked in the same
+    // statement, so two moderators clicking at once change it once
+    const { count } = await prisma.post.updateMany({
+        where: locked
+            ? { id: post.id, lockedAt: null, archivedAt: null }
+            : { id: post.id, OR: [{ lockedAt: { not: null } }, { archivedAt: { not: null } }] },
+        data: locked
+            ? { lockedAt: new Date() }
+            : { lockedAt: null, archivedAt: null, lastActivityAt: new Date() }
+    });
+
+    if (count === 0) {
+        return;
+    }
+
+    await recordAudit({
+        actor: session.user,
+        action: locked ? "post.lock" : "post.unlock",
+        targetType: "post",
+        targetId: post.id,
+        before: { lockedAt: post.lockedAt, archivedAt: post.archivedAt }
+    });
+
+    revalidatePath(`/topic/${post.topic.slug}/posts/${post.id}`);
+    revalidatePath(`/topic/${post.topic.slug}`);
+}
@@ -0,0 +1,743 @@
+// app/action/manage-topic.ts
+//
+// Server Actions behind the topic management panel.
+// The topic owner, its moderators, site moderators and admins can:
+// - edit the topic description
+// - appoint and remove topic moderators
+// Only the owner and staff can go further (see lib/permissions.ts):
+// - rename the topic (owner, admins) - the old name stays as a redirect alias
+// - edit its display name, icon, color, rules and sidebar links (owner, admins)
+// - delete the topic with all its posts (owner, site moderators, admins)
+// Every change is recorded in the audit log.
+
+// "use server" directive - marks this file as containing Server Actions
+// Server Actions run on the server, not in the browser
+'use server'
+
+// Import NextAuth function for server-side session retrieval
+// getServerSession - gets the user session on the server (secure)
+import { getServerSession } from "next-auth";
+
+// Import NextAuth configuration
+// authOptions contains our authentication setup
+import { authOptions } from "@/lib/auth";
+
+// Import Prisma client instance
+// Prisma is an ORM for type-safe database operations
+import { prisma } from "@/lib";
+
+// Topic color enum (validated against the schema's values), Prisma errors
+import { Prisma, TopicColor } from "@prisma/client";
+
+// Import permission helper
+// can - decides who may manage a topic
+import { can, isStaff } from "@/lib/permissions";
+
+// Topic owner + moderators select, user lookup
+import { topicRolesSelect } from "@/lib/query/topic";
+import { findUserByNameOrEmail } from "@/lib/query/user";
+
+// Audit log (every topic change is recorded)
+import { recordAudit } from "@/lib/audit";
+
+// Topic name rule (shared with topic creation)
+import { topicNameSchema } from "./topic-name";
+
+// Import Next.js cache revalidation function
+// revalidatePath - invalidates cached data for a specific path
+import { revalidatePath } from "next/cache";
+
+// Import Next.js redirect function
+// redirect - sends the user to the renamed topic / home page
+import { redirect } from "next/navigation";
+
+// Import Zod validation library
+// Zod provides runtime type validation and parsing
+import { z } from "zod";
+
+/**
+ * Zod Validation Schemas
+ *
+ * - description: same rule as topic creation (minimum 10 characters)
+ * - user: name or email of the new moderator
+ * - name: new topic name (same rule as topic creation)
+ * - confirm: the topic name typed again before deleting it
+ * - details: display name, emoji icon, color, rules (Markdown) and
+ *   sidebar links (one per line: "Label https://example.com")
+ */
+const topicDescriptionSchema = z.object({
+    description: z.string().min(10)
+});
+
+const appointModeratorSchema = z.object({
+    user: z.string().trim().min(1, { message: "Enter a name or email" })
+});
+
+const renameTopicSchema = z.object({
+    name: topicNameSchema
+});
+
+const deleteTopicSchema = z.object({
+    confirm: z.string().trim()
+});
+
+const topicDetailsSchema = z.object({
+    name: z.string().trim().max(50),
+    icon: z.string().trim().refine(
+        (icon) => icon === '' || (/^\S{1,16}$/.test(icon) && /\p{Extended_Pictographic}/u.test(icon)),
+        { message: "Use a single emoji" }
+    ),
+    color: z.enum(TopicColor, { message: "Pick a color" }),
+    rules: z.string().trim().max(5000),
+    links: z.string()
+});
+
+/**
+ * Limits for sidebar links
+ */
+const MAX_TOPIC_LINKS = 10;
+const MAX_LINK_LABEL = 40;
+
+/**
+ * TypeScript Types for the panel forms
+ *
+ * success is set after a save so the form can show a confirmation
+ */
+export type TopicDescriptionFormState = {
+    success?: boolean;
+    errors: {
+        description?: string[];
+        formError?: string[];
+    }
+}
+
+export type AppointModeratorFormState = {
+    success?: boolean;
+    errors: {
+        user?: string[];
+        formError?: string[];
+    }
+}
+
+export type TopicDetailsFormState = {
+    success?: boolean;
+    errors: {
+        name?: string[];
+        icon?: string[];
+        color?: string[];
+        rules?: string[];
+        links?: string[];
+        formError?: string[];
+    }
+}
+
+export type RenameTopicFormState = {
+    errors: {
+        name?: string[];
+        formError?: string[];
+    }
+}
+
+export type DeleteTopicFormState = {
+    errors: {
+        confirm?: string[];
+        formError?: string[];
+    }
+}
+
+/**
+ * Helper Function: loadManagedTopic
+ *
+ * Loads a topic and checks the current user may manage it.
+ *
+ * @param slug - Topic slug
+ * @returns The topic and the acting user, or an error message
+ */
+const loadManagedTopic = async (slug: string) => {
+    // Get the current user's session from the server
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user || !session.user.id) {
+        return { error: 'You must be logged in to manage topics' } as const;
+    }
+
+    const topic = await prisma.topic.findUnique({
+        where: { slug },
+        select: { id: true, slug: true, description: true, ...topicRolesSelect }
+    });
+
+    if (!topic) {
+        return { error: 'Topic not found' } as const;
+    }
+
+    // Authorization check: topic owner/moderators, staff - see lib/permissions.ts
+    if (!can(session.user, "manage", { topic })) {
+        return { error: 'You are not allowed to manage this topic' } as const;
+    }
+
+    return { topic, actor: session.user } as const;
+}
+
+/**
+ * Server Action: updateTopicDescription
+ *
+ * Flow:
+ * 1. Validate form data with Zod
+ * 2. Check the user may manage the topic
+ * 3. Update the description
+ * 4. Revalidate the topic page and home page (topic list)
+ *
+ * @param slug - Topic slug
+ * @param prevState - Previous form state
+ * @param formData - Form data (description)
+ * @returns Promise<TopicDescriptionFormState> - Form state with errors if any
+ */
+export const updateTopicDescription = async (
+    slug: string,
+    prevState: TopicDescriptionFormState,
+    formData: FormData
+): Promise<TopicDescriptionFormState> => {
+    const result = topicDescriptionSchema.safeParse({
+        description: formData.get('description')
+    });
+
+    if (!result.success) {
+        return {
+            errors: result.error.flatten().fieldErrors
+        }
+    }
+
+    const managed = await loadManagedTopic(slug);
+
+    if (!managed.topic) {
+        return {
+            errors: {
+                formError: [managed.error]
+            }
+        }
+    }
+
+    await prisma.topic.update({
+        where: { id: managed.topic.id },
+        data: { description: result.data.description }
+    });
+
+    await recordAudit({
+        actor: managed.actor,
+        action: "topic.update",
+        targetType: "topic",
+        targetId: managed.topic.id,
+        before: { description: managed.topic.description },
+        after: { description: result.data.description }
+    });
+
+    revalidatePath(`/topic/${slug}`);
+    revalidatePath('/');
+
+    return {
+        success: true,
+        errors: {}
+    }
+}
+
+/**
+ * Helper Function: parseTopicLinks
+ *
+ * Reads the links textarea: one link per line, "Label https://example.com".
+ * Without a label the link shows its host name.
+ *
+ * @param text - Textarea content
+ * @returns The links in order, or an error message for the first bad line
+ */
+const parseTopicLinks = (text: string) => {
+    const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+
+    if (lines.length > MAX_TOPIC_LINKS) {
+        return { error: `At most ${MAX_TOPIC_LINKS} links` } as const;
+    }
+
+    const links: { label: string; url: string }[] = [];
+
+    for (const [index, line] of lines.entries()) {
+        // The URL is the last word, everything before it the label
+        const split = line.lastIndexOf(' ');
+        const url = split === -1 ? line : line.slice(split + 1);
+        let parsed: URL;
+
+        try {
+            parsed = new URL(url);
+        } catch {
+            return { error: `Line ${index + 1}: end the line with a link (https://...)` } as const;
+        }
+
+        if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+            return { error: `Line ${index + 1}: only http(s) links are allowed` } as const;
+        }
+
+        const label = split === -1 ? parsed.hostname : line.slice(0, split).trim();
+
+        if (label.length > MAX_LINK_LABEL) {
+            return { error: `Line ${index + 1}: labels can be at most ${MAX_LINK_LABEL} characters` } as const;
+        }
+
+        links.push({ label, url: parsed.toString() });
+    }
+
+    return { links } as const;
+}
+
+/**
+ * Server Action: updateTopicDetails
+ *
+ * Updates how a topic presents itself: display name, emoji icon, color
+ * accent, rules and sidebar links. Empty fields fall back to the defaults
+ * (slug as name, no icon, no rules).
+ *
+ * Flow:
+ * 1. Validate form data with Zod (and parse the links)
+ * 2. Check the user may edit the topic (owner, admins)
+ * 3. Update the topic and replace its links
+ * 4. Record it in the audit log
+ * 5. Revalidate the topic pages and home page (topic list)
+ *
+ * @param slug - Topic slug
+ * @param prevState - Previous form state
+ * @param formData - Form data (name, icon, color, rules, links)
+ * @returns Promise<TopicDetailsFormState> - Form state with errors if any
+ */
+export const updateTopicDetails = async (
+    slug: string,
+    prevState: TopicDetailsFormState,
+    formData: FormData
+): Promise<TopicDetailsFormState> => {
+    const result = topicDetailsSchema.safeParse({
+        name: formData.get('name') ?? '',
+        icon: formData.get('icon') ?? '',
+        color: formData.get('color'),
+        rules: formData.get('rules') ?? '',
+        links: formData.get('links') ?? ''
+    });
+
+    if (!result.success) {
+        return {
+            errors: result.error.flatten().fieldErrors
+        }
+    }
+
+    const parsedLinks = parseTopicLinks(result.data.links);
+
+    if (!parsedLinks.links) {
+        return {
+            errors: {
+                links: [parsedLinks.error]
+            }
+        }
+    }
+
+    const managed = await loadManagedTopic(slug);
+
+    if (!managed.topic) {
+        return {
+            errors: {
+                formError: [managed.error]
+            }
+        }
+    }
+
+    const { topic } = managed;
+
+    // The topic's presentation is the owner's to edit - see lib/permissions.ts
+    if (!can(managed.actor, "edit", { userId: topic.ownerId ?? undefined })) {
+        return {
+            errors: {
+                formError: ['Only the topic owner and admins can edit these details']
+            }
+        }
+    }
+
+    const details = {
+        name: result.data.name || null,
+        icon: result.data.icon || null,
+        color: result.data.color,
+        rules: result.data.rules || null
+    };
+
+    // Previous state (for the audit log)
+    const before = await prisma.topic.findUniqueOrThrow({
+        where: { id: topic.id },
+        select: {
+            name: true,
+            icon: true,
+            color: true,
+            rules: true,
+            links: {
+                select: { label: true, url: true },
+                orderBy: { position: "asc" }
+            }
+        }
+    });
+
+    await prisma.topic.update({
+        where: { id: topic.id },
+        data: {
+            ...details,
+            // Replace the links with the new list (in textarea order)
+            links: {
+                deleteMany: {},
+                create: parsedLinks.links.map((link, position) => ({ ...link, position }))
+            }
+        }
+    });
+
+    await recordAudit({
+        actor: managed.actor,
+        action: "topic.update",
+        targetType: "topic",
+        targetId: topic.id,
+        before,
+        after: { ...details, links: parsedLinks.links }
+    });
+
+    revalidatePath(`/topic/${slug}`, 'layout');
+    revalidatePath('/');
+
+    return {
+        success: true,
+        errors: {}
+    }
+}
+
+/**
+ * Server Action: appointTopicModerator
+ *
+ * Flow:
+ * 1. Validate form data with Zod
+ * 2. Check the user may manage the topic
+ * 3. Find the user by name or email
+ * 4. Add them as a moderator (the owner is one already)
+ * 5. Revalidate the topic page
+ *
+ * @param slug - Topic slug
+ * @param prevState - Previous form state
+ * @param formData - Form data (user - name or email)
+ * @returns Promise<AppointModeratorFormState> - Form state with errors if any
+ */
+export const appointTopicModerator = async (
+    slug: string,
+    prevState: AppointModeratorFormState,
+    formData: FormData
+): Promise<AppointModeratorFormState> => {
+    const result = appointModeratorSchema.safeParse({
+        user: formData.get('user')
+    });
+
+    if (!result.success) {
+        return {
+            errors: result.error.flatten().fieldErrors
+        }
+    }
+
+    const managed = await loadManagedTopic(slug);
+
+    if (!managed.topic) {
+        return {
+            errors: {
+                formError: [managed.error]
+            }
+        }
+    }
+
+    const { topic } = managed;
+
+    // Names must be unique to be used here - otherwise ask for the email
+    const user = await findUserByNameOrEmail(result.data.user);
+
+    if (!user) {
+        return {
+            errors: {
+                user: ['No single user found with that name or email']
+            }
+        }
+    }
+
+    if (user.id === topic.ownerId || topic.moderators.some((moderator) => moderator.userId === user.id)) {
+        return {
+            errors: {
+                user: [`${user.name || 'This user'} already moderates this topic`]
+            }
+        }
+    }
+
+    await prisma.topicModerator.create({
+        data: {
+            topicId: topic.id,
+            userId: user.id
+        }
+    });
+
+    await recordAudit({
+        actor: managed.actor,
+        action: "topic.moderator.add",
+        targetType: "topic",
+        targetId: topic.id,
+        after: { userId: user.id, name: user.name }
+    });
+
+    revalidatePath(`/topic/${slug}`);
+
+    return {
+        success: true,
+        errors: {}
+    }
+}
+
+/**
+ * Server Action: removeTopicModerator
+ *
+ * Removes a moderator from a topic.
+ * Only the topic owner and site staff can - moderators can't remove each other.
+ * The owner can't be removed (they aren't in the moderator list).
+ *
+ * @param slug - Topic slug
+ * @param userId - Moderator to remove
+ */
+export const removeTopicModerator = async (slug: string, userId: string) => {
+    const managed = await loadManagedTopic(slug);
+
+    if (!managed.topic) {
+        throw new Error(managed.error);
+    }
+
+    if (!isStaff(managed.actor) && managed.topic.ownerId !== managed.actor.id) {
+        throw new Error('Only the topic owner and site staff can remove moderators');
+    }
+
+    const { count } = await prisma.topicModerator.deleteMany({
+        where: {
+            topicId: managed.topic.id,
+            userId: String(userId)
+        }
+    });
+
+    // Only record removals that happened
+    if (count > 0) {
+        await recordAudit({
+            actor: managed.actor,
+            action: "topic.moderator.remove",
+            targetType: "topic",
+            targetId: managed.topic.id,
+            before: { userId: String(userId) }
+        });
+    }
+
+    revalidatePath(`/topic/${slug}`);
+}
+
+/**
+ * Server Action: renameTopic
+ *
+ * Gives a topic a new name (slug). The old name is kept as an alias,
+ * so /topic/<old-name> and post links under it redirect to the topic.
+ * Renaming back to a former name takes that alias back.
+ *
+ * Flow:
+ * 1. Validate form data with Zod
+ * 2. Check the user may rename the topic (owner, admins)
+ * 3. Check the name is free (no other topic, no other topic's alias)
+ * 4. Rename and store the alias in one transaction
+ * 5. Record it in the audit log, revalidate and go to the renamed topic
+ *
+ * @param slug - Current topic slug
+ * @param prevState - Previous form state
+ * @param formData - Form data (name)
+ * @returns Promise<RenameTopicFormState> - Form state with errors if any
+ */
+export const renameTopic = async (
+    slug: string,
+    prevState: RenameTopicFormState,
+    formData: FormData
+): Promise<RenameTopicFormState> => {
+    const result = renameTopicSchema.safeParse({
+        name: formData.get('name')
+    });
+
+    if (!result.success) {
+        return {
+            errors: result.error.flatten().fieldErrors
+        }
+    }
+
+    const managed = await loadManagedTopic(slug);
+
+    if (!managed.topic) {
+        return {
+            errors: {
+                formError: [managed.error]
+            }
+        }
+    }
+
+    const { topic } = managed;
+
+    // Renaming is the owner's "edit" of the topic - see lib/permissions.ts
+    if (!can(managed.actor, "edit", { userId: topic.ownerId ?? undefined })) {
+        return {
+            errors: {
+                formError: ['Only the topic owner and admins can rename this topic']
+            }
+        }
+    }
+
+    const name = result.data.name;
+
+    if (name === topic.slug) {
+        return {
+            errors: {
+                name: ['That is the current name']
+            }
+        }
+    }
+
+    const [taken, alias] = await Promise.all([
+        prisma.topic.findUnique({ where: { slug: name }, select: { id: true } }),
+        prisma.topicAlias.findUnique({ where: { slug: name }, select: { topicId: true } })
+    ]);
+
+    if (taken || (alias && alias.topicId !== topic.id)) {
+        return {
+            errors: {
+                name: ['That name is taken']
+            }
+        }
+    }
+
+    try {
+        // $transaction - the rename and its alias succeed or fail together
+        await prisma.$transaction([
+            // A former name of this topic becomes its name again
+            prisma.topicAlias.deleteMany({ where: { slug: name } }),
+            prisma.topic.update({
+                where: { id: topic.id },
+                data: { slug: name }
+            }),
+            prisma.topicAlias.create({
+                data: { slug: topic.slug, topicId: topic.id }
+            })
+        ]);
+    } catch (error: unknown) {
+        // Another topic took the name since the check above (unique slug)
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return {
+                errors: {
+                    name: ['That name is taken']
+                }
+            }
+        }
+
+        throw error;
+    }
+
+    await recordAudit({
+        actor: managed.actor,
+        action: "topic.rename",
+        targetType: "topic",
+        targetId: topic.id,
+        before: { slug: topic.slug },
+        after: { slug: name }
+    });
+
+    revalidatePath(`/topic/${topic.slug}`, 'layout');
+    revalidatePath(`/topic/${name}`, 'layout');
+    revalidatePath('/');
+
+    redirect(`/topic/${name}`);
+}
+
+/**
+ * Server Action: deleteTopic
+ *
+ * Deletes a topic for good, together with its posts, their comments and
+ * votes, its moderators and aliases (cascade delete from schema).
+ * The topic name has to be typed again to confirm.
+ *
+ * Flow:
+ * 1. Check the user may delete the topic (owner, site moderators, admins)
+ * 2. Check the confirmation matches the topic name
+ * 3. Delete the topic and record it in the audit log
+ * 4. Revalidate and go to the home page
+ *
+ * @param slug - Topic slug
+ * @param prevState - Previous form state
+ * @param formData - Form data (confirm)
+ * @returns Promise<DeleteTopicFormState> - Form state with errors if any
+ */
+export const deleteTopic = async (
+    slug: string,
+    prevState: DeleteTopicFormState,
+    formData: FormData
+): Promise<DeleteTopicFormState> => {
+    const result = deleteTopicSchema.safeParse({
+        confirm: formData.get('confirm') ?? ''
+    });
+
+    if (!result.success) {
+        return {
+            errors: result.error.flatten().fieldErrors
+        }
+    }
+
+    const managed = await loadManagedTopic(slug);
+
+    if (!managed.topic) {
+        return {
+            errors: {
+                formError: [managed.error]
+            }
+        }
+    }
+
+    const { topic } = managed;
+
+    // Topic moderators can't delete the topic - only its owner and staff
+    if (!can(managed.actor, "delete", { userId: topic.ownerId ?? undefined })) {
+        return {
+            errors: {
+                formError: ['Only the topic owner and staff can delete this topic']
+            }
+        }
+    }
+
+    if (result.data.confirm !== topic.slug) {
+        return {
+            errors: {
+                confirm: [`Type ${topic.slug} to confirm`]
+            }
+        }
+    }
+
+    const posts = await prisma.post.count({
+        where: { topicId: topic.id }
+    });
+
+    await prisma.topic.delete({
+        where: { id: topic.id }
+    });
+
+    await recordAudit({
+        actor: managed.actor,
+        action: "topic.delete",
+        targetType: "topic",
+        targetId: topic.id,
+        before: {
+            slug: topic.slug,
+            description: topic.description,
+            ownerId: topic.ownerId,
+            posts
+        }
+    });
+
+    revalidatePath(`/topic/${topic.slug}`, 'layout');
+    revalidatePath('/');
+
+    redirect('/');
+}
@@ -0,0 +1,54 @@
+// app/action/mention-users.ts
+//
+// Server Action behind the @mention autocomplete in the post and comment editors.
+
+// "use server" directive - marks this file as containing Server Actions
+// Server Actions run on the server, not in the browser
+'use server'
+
+// Import NextAuth function for server-side session retrieval
+// getServerSession - gets the user session on the server (secure)
+import { getServerSession } from "next-auth";
+
+// Import NextAuth configuration
+// authOptions contains our authentication setup
+import { authOptions } from "@/lib/auth";
+
+// User lookup + mention handles
+import { searchUsersByName } from "@/lib/query/user";
+import { mentionHandle } from "@/lib/mentions";
+
+/**
+ * TypeScript Type: MentionSuggestion
+ *
+ * A user offered by the autocomplete, with the handle to insert
+ */
+export type MentionSuggestion = {
+    id: string;
+    name: string;
+    image: string | null;
+    handle: string;
+}
+
+/**
+ * Server Action: suggestMentionUsers
+ *
+ * Only logged-in users (the only ones who can write) get suggestions.
+ *
+ * @param prefix - What was typed after "@"
+ * @returns Promise<MentionSuggestion[]> - Up to 8 matching users
+ */
+export const suggestMentionUsers = async (prefix: string): Promise<MentionSuggestion[]> => {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user || !session.user.id) {
+        return [];
+    }
+
+    // Handles are at most a name long - longer input can't match anything useful
+    const users = await searchUsersByName(String(prefix).slice(0, 50));
+
+    return users.flatMap((user) =>
+        user.name ? [{ id: user.id, name: user.name, image: user.image, handle: mentionHandle(user.name) }] : []
+    );
+}
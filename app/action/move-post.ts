@@ -0,0 +1,208 @@
+// app/action/move-post.ts
+//
+// Server Action for moving a post to another topic.
+// The author and moderators (site or topic) can move posts - see lib/permissions.ts.
+// Comments, votes and reports move with the post; the old URL redirects
+// to the new one (the post page sends outdated slugs to the current topic).
+
+// "use server" directive - marks this file as containing Server Actions
+// Server Actions run on the server, not in the browser
+'use server'
+
+// Import NextAuth function for server-side session retrieval
+// getServerSession - gets the user session on the server (secure)
+import { getServerSession } from "next-auth";
+
+// Import NextAuth configuration
+// authOptions contains our authentication setup
+import { authOptions } from "@/lib/auth";
+
+// Import Prisma client instance
+// Prisma is an ORM for type-safe database operations
+import { prisma } from "@/lib";
+
+// Import permission helper
+// can - decides who may move posts (author, staff, topic owner/moderators)
+import { can } from "@/lib/permissions";
+
+// Ban / suspension check - nobody moves posts into a topic they are banned from
+import { findActiveBan, describeBan } from "@/lib/bans";
+
+// Topic owner + moderators (they can move posts out of their topic)
+import { topicRolesSelect } from "@/lib/query/topic";
+
+// Audit log (moving someone else's post)
+import { recordAudit } from "@/lib/audit";
+
+// Import Next.js cache revalidation function
+// revalidatePath - invalidates cached data for a specific path
+import { revalidatePath } from "next/cache";
+
+// Import Next.js redirect function
+// redirect - sends the user to the post's new URL
+import { redirect } from "next/navigation";
+
+// Import Zod validation library
+// Zod provides runtime type validation and parsing
+import { z } from "zod";
+
+/**
+ * Zod Validation Schema
+ *
+ * - topic: slug of the topic to move the post to
+ */
+const movePostSchema = z.object({
+    topic: z.string().trim().min(1, { message: "Pick a topic" })
+});
+
+/**
+ * TypeScript Type for the move form
+ */
+export type MovePostFormState = {
+    errors: {
+        topic?: string[];
+        formError?: string[];
+    }
+}
+
+/**
+ * Server Action: movePost
+ *
+ * Flow:
+ * 1. Validate form data with Zod
+ * 2. Check user authentication
+ * 3. Verify post exists and the user may move it (permission helper)
+ * 4. Find the new topic (not the current one, not one the user is banned from)
+ * 5. Move the post (and its reports), unpin it and record the move on the post
+ * 6. Record moves of other people's posts in the audit log
+ * 7. Revalidate both topics and go to the post's new URL
+ *
+ * @param postId - Post to move
+ * @param prevState - Previous form state
+ * @param formData - Form data (topic)
+ * @returns Promise<MovePostFormState> - Form state with errors if any
+ */
+export const movePost = async (
+    postId: string,
+    prevState: MovePostFormState,
+    formData: FormData
+): Promise<MovePostFormState> => {
+    const result = movePostSchema.safeParse({
+        topic: formData.get('topic')
+    });
+
+    if (!result.success) {
+        return {
+            errors: result.error.flatten().fieldErrors
+        }
+    }
+
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user || !session.user.id) {
+        return {
+            errors: {
+                formError: ['You must be logged in to move posts']
+            }
+        }
+    }
+
+    const post = await prisma.post.findUnique({
+        where: { id: String(postId) },
+        select: {
+            id: true,
+            userId: true,
+            title: true,
+            topic: { select: { id: true, slug: true, ...topicRolesSelect } }
+        }
+    });
+
+    if (!post) {
+        return {
+            errors: {
+                formError: ['Post not found']
+            }
+        }
+    }
+
+    // Authorization check: author, staff, topic owner/moderators - see lib/permissions.ts
+    if (!can(session.user, "move", post)) {
+        return {
+            errors: {
+                formError: ['You are not allowed to move this post']
+            }
+        }
+    }
+
+    const target = await prisma.topic.findUnique({
+        where: { slug: result.data.topic },
+        select: { id: true, slug: true }
+    });
+
+    if (!target) {
+        return {
+            errors: {
+                topic: ['Topic not found']
+            }
+        }
+    }
+
+    if (target.id === post.topic.id) {
+        return {
+            errors: {
+                topic: ['The post is already in this topic']
+            }
+        }
+    }
+
+    const ban = await findActiveBan(session.user.id, target.id);
+
+    if (ban) {
+        return {
+            errors: {
+                formError: [describeBan(ban)]
+            }
+        }
+    }
+
+    // $transaction - the post and its reports move together
+    await prisma.$transaction([
+        prisma.post.update({
+            where: { id: post.id },
+            data: {
+                topicId: target.id,
+                // Pins belong to the old topic
+                pinnedAt: null,
+                movedAt: new Date(),
+                movedFromId: post.topic.id,
+                movedById: session.user.id
+            }
+        }),
+        // Reports on the post and its comments go to the new topic's moderators
+        prisma.report.updateMany({
+            where: {
+                OR: [
+                    { postId: post.id },
+                    { comment: { postId: post.id } }
+                ]
+            },
+            data: { topicId: target.id }
+        })
+    ]);
+
+    if (post.userId !== session.user.id) {
+        await recordAudit({
+            actor: session.user,
+            action: "post.move",
+            targetType: "post",
+            targetId: post.id,
+            before: { topic: post.topic.slug },
+            after: { topic: target.slug }
+        });
+    }
+
+    revalidatePath(`/topic/${post.topic.slug}`, 'layout');
+    revalidatePath(`/topic/${target.slug}`, 'layout');
+
+    redirect(`/topic/${target.slug}/posts/${post.id}`);
+}
@@ -0,0 +1,163 @@
+// app/action/notification.ts
+//
+// Server Actions for the notification inbox (/notifications)
+// and the email settings on the profile page.
+// Users can only mark their own notifications as read.
+
+// "use server" directive - marks this file as containing Server Actions
+// Server Actions run on the server, not in the browser
+'use server'
+
+// Import NextAuth function for server-side session retrieval
+// getServerSession - gets the user session on the server (secure)
+import { getServerSession } from "next-auth";
+
+// Import NextAuth configuration
+// authOptions contains our authentication setup
+import { authOptions } from "@/lib/auth";
+
+// Import Prisma client instance
+// Prisma is an ORM for type-safe database operations
+import { prisma } from "@/lib";
+
+// Import Prisma enum (email frequencies)
+import { EmailFrequency } from "@prisma/client";
+
+// Import Next.js cache revalidation function
+// revalidatePath - invalidates cached data for a specific path
+import { revalidatePath } from "next/cache";
+
+// Import Zod validation library
+// Zod provides runtime type validation and parsing
+import { z } from "zod";
+
+/**
+ * Server Action: markNotificationRead
+ *
+ * Marks one notification as read (opening it from the inbox does this too).
+ *
+ * @param notificationId - Notification to mark
+ */
+export const markNotificationRead = async (notificationId: string) => {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user || !session.user.id) {
+        throw new Error('You must be logged in to read notifications');
+    }
+
+    // userId in the filter - other users' notifications are never touched
+    await prisma.notification.updateMany({
+        where: {
+            id: String(notificationId),
+            userId: session.user.id,
+            readAt: null
+        },
+        data: { readAt: new Date() }
+    });
+
+    // The unread count lives in the header (root layout)
+    revalidatePath('/', 'layout');
+}
+
+/**
+ * Server Action: markAllNotificationsRead
+ *
+ * Marks every unread notification of the current user as read.
+ */
+export const markAllNotificationsRead = async () => {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user || !session.user.id) {
+        throw new Error('You must be logged in to read notifications');
+    }
+
+    await prisma.notification.updateMany({
+        where: {
+            userId: session.user.id,
+            readAt: null
+        },
+        data: { readAt: new Date() }
+    });
+
+    revalidatePath('/', 'layout');
+}
+
+/**
+ * Zod Validation Schema for the email settings
+ *
+ * - frequency: OFF, IMMEDIATE, DAILY or WEEKLY
+ */
+const emailSettingsSchema = z.object({
+    frequency: z.enum(EmailFrequency, { message: "Choose how often to get emails" })
+});
+
+/**
+ * TypeScript Type for the email settings form
+ *
+ * success is set after a save so the form can show a confirmation
+ */
+export type EmailSettingsFormState = {
+    success?: boolean;
+    errors: {
+        frequency?: string[];
+        formError?: string[];
+    }
+}
+
+/**
+ * Server Action: updateEmailSettings
+ *
+ * Sets how often the user gets notifications by email.
+ * A change starts the digest period now: the first DAILY / WEEKLY
+ * digest comes a day / a week after switching.
+ *
+ * @param prevState - Previous form state
+ * @param formData - Form data (frequency)
+ * @returns Promise<EmailSettingsFormState> - Form state with errors if any
+ */
+export const updateEmailSettings = async (
+    prevState: EmailSettingsFormState,
+    formData: FormData
+): Promise<EmailSettingsFormState> => {
+    const result = emailSettingsSchema.safeParse({
+        frequency: formData.get('frequency')
+    });
+
+    if (!result.success) {
+        return {
+            errors: result.error.flatten().fieldErrors
+        }
+    }
+
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user || !session.user.id) {
+        return {
+            errors: {
+                formError: ['You must be logged in to change your email settings']
+            }
+        }
+    }
+
+    const user = await prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { emailFrequency: true }
+    });
+
+    if (user && user.emailFrequency !== result.data.frequency) {
+        await prisma.user.update({
+            where: { id: session.user.id },
+            data: {
+                emailFrequency: result.data.frequency,
+                lastDigestAt: new Date()
+            }
+        });
+    }
+
+    revalidatePath('/profile');
+
+    return {
+        success: true,
+        errors: {}
+    }
+}
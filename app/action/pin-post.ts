@@ -0,0 +1,169 @@
+// app/action/pin-post.ts
+//
+// Server Actions for pinned posts and site-wide announcements.
+// - Pinned posts stay at the top of their topic
+//   (moderators, site or topic, and admins can pin)
+// - Announcements are shown on the home page (admins only)
+// See lib/permissions.ts.
+
+// "use server" directive - marks this file as containing Server Actions
+// Server Actions run on the server, not in the browser
+'use server'
+
+// Import NextAuth function for server-side session retrieval
+// getServerSession - gets the user session on the server (secure)
+import { getServerSession } from "next-auth";
+
+// Import NextAuth configuration
+// authOptions contains our authentication setup
+import { authOptions } from "@/lib/auth";
+
+// Import Prisma client instance
+// Prisma is an ORM for type-safe database operations
+import { prisma } from "@/lib";
+
+// Import permission helper
+// can - decides who may pin (staff, topic owner/moderators) and announce (admins)
+import { can } from "@/lib/permissions";
+
+// Topic owner + moderators (they can pin posts in their topic)
+import { topicRolesSelect } from "@/lib/query/topic";
+
+// Audit log
+import { recordAudit } from "@/lib/audit";
+
+// Import Next.js cache revalidation function
+// revalidatePath - invalidates cached data for a specific path
+import { revalidatePath } from "next/cache";
+
+/**
+ * Helper Function: loadPost
+ *
+ * @param postId - Post to pin or announce
+ * @returns The post with its pin state and topic roles, or null
+ */
+const loadPost = async (postId: string) => {
+    return prisma.post.findUnique({
+        where: { id: String(postId) },
+        select: {
+            id: true,
+            pinnedAt: true,
+            announcedAt: true,
+            topic: { select: { slug: true, ...topicRolesSelect } }
+        }
+    });
+}
+
+/**
+ * Server Action: setPostPin
+ *
+ * Pins a post to the top of its topic, or unpins it.
+ * A post already in the asked state is left alone, without an audit entry.
+ *
+ * Flow:
+ * 1. Check user authentication
+ * 2. Verify post exists
+ * 3. Check the user may pin it (permission helper)
+ * 4. Pin / unpin and record it in the audit log
+ * 5. Revalidate the post and topic pages
+ *
+ * @param postId - Post to pin or unpin
+ * @param pinned - true to pin, false to unpin
+ */
+export const setPostPin = async (postId: string, pinned: boolean) => {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user || !session.user.id) {
+        throw new Error('You must be logged in to pin posts');
+    }
+
+    const post = await loadPost(postId);
+
+    if (!post) {
+        throw new Error('Post not found');
+    }
+
+    // Authorization check: staff, topic owner/moderators - see lib/permissions.ts
+    if (!can(session.user, "pin", post)) {
+        throw new Error('You are not allowed to pin this post');
+    }
+
+    // Checked in the same statement, so two moderators clicking at once change it once
+    const { count } = await prisma.post.updateMany({
+        where: { id: post.id, pinnedAt: pinned ? null : { not: null } },
+        data: { pinnedAt: pinned ? new Date() : null }
+    });
+
+    if (count === 0) {
+        return;
+    }
+
+    await recordAudit({
+        actor: session.user,
+        action: pinned ? "post.pin" : "post.unpin",
+        targetType: "post",
+        targetId: post.id,
+        before: { pinnedAt: post.pinnedAt }
+    });
+
+    revalidatePath(`/topic/${post.topic.slug}/posts/${post.id}`);
+    revalidatePath(`/topic/${post.topic.slug}`);
+}
+
+/**
+ * Server Action: setPostAnnouncement
+ *
+ * Shows a post as a site-wide announcement on the home page,
+ * or takes it off again. The post stays in its topic either way.
+ * A post already in the asked state is left alone, without an audit entry.
+ *
+ * Flow:
+ * 1. Check user authentication
+ * 2. Verify post exists
+ * 3. Check the user is an admin (permission helper)
+ * 4. Announce / withdraw and record it in the audit log
+ * 5. Revalidate the post page and the home page
+ *
+ * @param postId - Post to announce or withdraw
+ * @param announced - true to announce, false to withdraw
+ */
+export const setPostAnnouncement = async (postId: string, announced: boolean) => {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user || !session.user.id) {
+        throw new Error('You must be logged in to post announcements');
+    }
+
+    const post = await loadPost(postId);
+
+    if (!post) {
+        throw new Error('Post not found');
+    }
+
+    // Authorization check: admins only - see lib/permissions.ts
+    if (!can(session.user, "announce", post)) {
+        throw new Error('Only admins can post announcements');
+    }
+
+    // Checked in the same statement, so two admins clicking at once change it once
+    const { count } = await prisma.post.updateMany({
+        where: { id: post.id, announcedAt: announced ? null : { not: null } },
+        data: { announcedAt: announced ? new Date() : null }
+    });
+
+    if (count === 0) {
+        return;
+    }
+
+    await recordAudit({
+        actor: session.user,
+        action: announced ? "post.announce" : "post.unannounce",
+        targetType: "post",
+        targetId: post.id,
+        before: { announcedAt: post.announcedAt }
+    });
+
+    revalidatePath(`/topic/${post.topic.slug}/posts/${post.id}`);
+    revalidatePath(`/topic/${post.topic.slug}`);
+    revalidatePath('/');
+}
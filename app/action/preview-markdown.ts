@@ -0,0 +1,47 @@
+// app/action/preview-markdown.ts
+//
+// Server Action behind the "Preview" tab of the Markdown editor.
+// Renders with the same pipeline as the post page, so the preview
+// matches what will be published.
+
+// "use server" directive - marks this file as containing Server Actions
+// Server Actions run on the server, not in the browser
+'use server'
+
+// Import NextAuth function for server-side session retrieval
+// getServerSession - gets the user session on the server (secure)
+import { getServerSession } from "next-auth";
+
+// Import NextAuth configuration
+// authOptions contains our authentication setup
+import { authOptions } from "@/lib/auth";
+
+// Markdown → sanitized HTML
+import { renderMarkdown } from "@/lib/markdown";
+
+/**
+ * Longest text we render for a preview
+ * (keeps a single request from tying up the server)
+ */
+const MAX_PREVIEW_LENGTH = 50_000;
+
+/**
+ * Server Action: previewMarkdown
+ *
+ * Renders a draft to sanitized HTML.
+ * Only logged-in users can write, so only they can preview.
+ *
+ * @param content - Draft Markdown from the editor
+ * @returns Promise<string> - Sanitized HTML
+ */
+export const previewMarkdown = async (content: string): Promise<string> => {
+    // Get the current user's session from the server
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user || !session.user.id) {
+        throw new Error('You must be logged in to preview');
+    }
+
+    // Arguments come from the browser - make sure it's a string
+    return renderMarkdown(String(content).slice(0, MAX_PREVIEW_LENGTH));
+}
@@ -0,0 +1,74 @@
+// app/action/report-reasons.ts
+//
+// Report reasons and decisions with their labels.
+// Plain module (no "use server") so the report dialog, the moderation queue
+// and the report actions can share it.
+
+// Report enums generated from prisma/schema.prisma
+import type { ReportReason, ReportStatus } from "@prisma/client";
+
+/**
+ * Reasons in the order they are offered in the report dialog
+ */
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+    { value: "SPAM", label: "Spam or advertising" },
+    { value: "HARASSMENT", label: "Harassment or hate" },
+    { value: "OFF_TOPIC", label: "Off-topic" },
+    { value: "INAPPROPRIATE", label: "Inappropriate content" },
+    { value: "OTHER", label: "Something else" }
+];
+
+/**
+ * Decisions a moderator can take on a report
+ * - dismiss → nothing wrong, the content stays
+ * - remove  → the content is removed (all open reports on it are closed)
+ * - warn    → the content stays, its author gets a warning
+ */
+export const REPORT_DECISIONS = ["dismiss", "remove", "warn"] as const;
+
+/**
+ * TypeScript Type: ReportDecision
+ *
+ * One of "dismiss", "remove", "warn"
+ */
+export type ReportDecision = (typeof REPORT_DECISIONS)[number];
+
+/**
+ * Status each decision closes a report with
+ */
+export const DECISION_STATUS: Record<ReportDecision, ReportStatus> = {
+    dismiss: "DISMISSED",
+    remove: "REMOVED",
+    warn: "WARNED"
+};
+
+/**
+ * Helper Function: reportReasonLabel
+ *
+ * @param reason - Reason stored on the report
+ * @returns string - Readable label, e.g. "Off-topic"
+ */
+export const reportReasonLabel = (reason: ReportReason): string => {
+    return REPORT_REASONS.find((option) => option.value === reason)?.label ?? reason;
+}
+
+/**
+ * Helper Function: reportStatusLabel
+ *
+ * What the reporter sees about their report.
+ *
+ * @param status - Status of the report
+ * @returns string - e.g. "Content removed"
+ */
+export const reportStatusLabel = (status: ReportStatus): string => {
+    switch (status) {
+        case "OPEN":
+            return "Waiting for review";
+        case "DISMISSED":
+            return "Dismissed";
+        case "REMOVED":
+            return "Content removed";
+        case "WARNED":
+            return "Author warned";
+    }
+}
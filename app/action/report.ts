@@ -0,0 +1,444 @@
+// app/action/report.ts
+//
+// Server Actions for reporting content and handling reports.
+// - Any logged-in user can report someone else's post or comment
+// - Moderators (site or topic) and admins handle reports in /mod/queue:
+//   dismiss, remove the content or warn the author
+// Every decision is stored on the report, so the reporter can see it on their profile.
+
+// "use server" directive - marks this file as containing Server Actions
+// Server Actions run on the server, not in the browser
+'use server'
+
+// Import NextAuth function for server-side session retrieval
+// getServerSession - gets the user session on the server (secure)
+import { getServerSession } from "next-auth";
+
+// Import NextAuth configuration
+// authOptions contains our authentication setup
+import { authOptions } from "@/lib/auth";
+
+// Import Prisma client instance
+// Prisma is an ORM for type-safe database operations
+import { prisma } from "@/lib";
+
+// Report reason enum generated from prisma/schema.prisma
+import { ReportReason } from "@prisma/client";
+
+// Import permission helper
+// can - decides who may handle reports (topic staff, staff, admins)
+import { can, isStaff, isTopicStaff, leadsTopic } from "@/lib/permissions";
+
+// Topic owner + moderators (they handle reports in their topic)
+import { topicRolesSelect } from "@/lib/query/topic";
+
+// Removal helpers (same as the delete actions)
+import { removeComment, removePost } from "@/lib/content";
+
+// Audit log (warnings, dismissals - removals are recorded by lib/content.ts)
+import { recordAudit } from "@/lib/audit";
+
+// Reasons and decisions
+import {
+    REPORT_DECISIONS,
+    DECISION_STATUS,
+    reportReasonLabel
+} from "./report-reasons";
+
+// Import Next.js cache revalidation function
+// revalidatePath - invalidates cached data for a specific path
+import { revalidatePath } from "next/cache";
+
+// Import Zod validation library
+// Zod provides runtime type validation and parsing
+import { z } from "zod";
+
+/**
+ * Zod Validation Schemas
+ *
+ * - reason: one of the ReportReason values
+ * - details: optional free text for the moderators
+ * - decision: dismiss / remove / warn
+ * - note: optional explanation, shown to the reporter (and the warned user)
+ */
+const createReportSchema = z.object({
+    reason: z.enum(ReportReason, { message: "Choose a reason" }),
+    details: z.string().trim().max(1000)
+});
+
+const resolveReportSchema = z.object({
+    decision: z.enum(REPORT_DECISIONS, { message: "Choose a decision" }),
+    note: z.string().trim().max(1000)
+});
+
+/**
+ * TypeScript Type: ReportTarget
+ *
+ * What is being reported - either a post or a comment, never both.
+ */
+export type ReportTarget = { postId: string } | { commentId: string };
+
+/**
+ * TypeScript Types for the report forms
+ *
+ * success is set after a save so the form can show a confirmation
+ */
+export type ReportFormState = {
+    success?: boolean;
+    errors: {
+        reason?: string[];
+        details?: string[];
+        formError?: string[];
+    }
+}
+
+export type ReportDecisionFormState = {
+    success?: boolean;
+    errors: {
+        note?: string[];
+        formError?: string[];
+    }
+}
+
+/**
+ * Helper Function: loadReportedContent
+ *
+ * Loads the post or comment being reported.
+ *
+ * @param target - { postId } or { commentId }
+ * @returns The content's author, topic and text, or null if it is gone
+ */
+const loadReportedContent = async (target: ReportTarget) => {
+    if ('postId' in target) {
+        const post = await prisma.post.findUnique({
+            where: { id: target.postId },
+            select: { id: true, userId: true, topicId: true, title: true, content: true }
+        });
+
+        return post && {
+            postId: post.id,
+            userId: post.userId,
+            topicId: post.topicId,
+            snapshot: `${post.title}\n\n${post.content}`
+        };
+    }
+
+    const comment = await prisma.comment.findUnique({
+        where: { id: target.commentId },
+        select: { id: true, userId: true, content: true, deletedAt: true, post: { select: { topicId: true } } }
+    });
+
+    // Deleted comments are tombstones - nothing left to report
+    if (!comment || comment.deletedAt) {
+        return null;
+    }
+
+    return {
+        commentId: comment.id,
+        userId: comment.userId,
+        topicId: comment.post.topicId,
+        snapshot: comment.content
+    };
+}
+
+/**
+ * Server Action: createReport
+ *
+ * Flow:
+ * 1. Validate form data with Zod
+ * 2. Check user authentication
+ * 3. Load the reported content (not deleted, not the user's own)
+ * 4. Skip duplicates - one open report per user and content
+ * 5. Store the report with a snapshot of the content
+ * 6. Revalidate the moderation queue
+ *
+ * @param target - { postId } or { commentId }
+ * @param prevState - Previous form state
+ * @param formData - Form data (reason, details)
+ * @returns Promise<ReportFormState> - Form state with errors if any
+ */
+export const createReport = async (
+    target: ReportTarget,
+    prevState: ReportFormState,
+    formData: FormData
+): Promise<ReportFormState> => {
+    const result = createReportSchema.safeParse({
+        reason: formData.get('reason'),
+        details: formData.get('details') ?? ''
+    });
+
+    if (!result.success) {
+        return {
+            errors: result.error.flatten().fieldErrors
+        }
+    }
+
+    // Get the current user's session from the server
+    // This verifies the user is logged in
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user || !session.user.id) {
+        return {
+            errors: {
+                formError: ['You must be logged in to report content']
+            }
+        }
+    }
+
+    // Rebuild the target from known keys only
+    // (arguments of a Server Action come from the browser and can't be trusted)
+    const reportTarget = 'postId' in target
+        ? { postId: String(target.postId) }
+        : { commentId: String(target.commentId) };
+
+    const content = await loadReportedContent(reportTarget);
+
+    if (!content) {
+        return {
+            errors: {
+                formError: ['This content no longer exists']
+            }
+        }
+    }
+
+    if (content.userId === session.user.id) {
+        return {
+            errors: {
+                formError: ['You cannot report your own content']
+            }
+        }
+    }
+
+    // Reporting the same thing twice doesn't make it more urgent
+    const existing = await prisma.report.findFirst({
+        where: { reporterId: session.user.id, status: 'OPEN', ...reportTarget },
+        select: { id: true }
+    });
+
+    if (existing) {
+        return {
+            errors: {
+                formError: ['You have already reported this - moderators will review it']
+            }
+        }
+    }
+
+    await prisma.report.create({
+        data: {
+            ...reportTarget,
+            reporterId: session.user.id,
+            authorId: content.userId,
+            topicId: content.topicId,
+            reason: result.data.reason,
+            details: result.data.details || null,
+            snapshot: content.snapshot
+        }
+    });
+
+    revalidatePath('/mod/queue');
+    revalidatePath('/profile');
+
+    return {
+        success: true,
+        errors: {}
+    }
+}
+
+/**
+ * Server Action: resolveReport
+ *
+ * Decisions:
+ * - dismiss → the report is closed, the content stays
+ * - remove  → the post is deleted / the comment becomes a tombstone,
+ *             every open report on that content is closed as removed
+ * - warn    → the author gets a warning (with the note as its reason)
+ *
+ * Flow:
+ * 1. Validate form data with Zod
+ * 2. Check the user may moderate the report's topic (and, to remove or warn,
+ *    outranks the author - topic moderators can't act on the owner's,
+ *    other topic moderators' or site staff's content)
+ * 3. Carry out the decision
+ * 4. Record the decision (status, moderator, note, time)
+ * 5. Revalidate the queue and the affected pages
+ *
+ * @param reportId - Report to resolve
+ * @param prevState - Previous form state
+ * @param formData - Form data (decision, note)
+ * @returns Promise<ReportDecisionFormState> - Form state with errors if any
+ */
+export const resolveReport = async (
+    reportId: string,
+    prevState: ReportDecisionFormState,
+    formData: FormData
+): Promise<ReportDecisionFormState> => {
+    const result = resolveReportSchema.safeParse({
+        decision: formData.get('decision'),
+        note: formData.get('note') ?? ''
+    });
+
+    if (!result.success) {
+        const { decision, note } = result.error.flatten().fieldErrors;
+
+        return {
+            errors: {
+                note,
+                formError: decision
+            }
+        }
+    }
+
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user || !session.user.id) {
+        return {
+            errors: {
+                formError: ['You must be logged in to handle reports']
+            }
+        }
+    }
+
+    const report = await prisma.report.findUnique({
+        where: { id: String(reportId) },
+        select: {
+            id: true,
+            status: true,
+            reason: true,
+            authorId: true,
+            author: { select: { id: true, role: true } },
+            postId: true,
+            commentId: true,
+            topic: { select: { slug: true, ...topicRolesSelect } },
+            post: { select: { id: true } },
+            comment: { select: { id: true, postId: true, deletedAt: true } }
+        }
+    });
+
+    if (!report || report.status !== 'OPEN') {
+        return {
+            errors: {
+                formError: ['This report has already been handled']
+            }
+        }
+    }
+
+    // Authorization check: topic owner/moderators, staff - see lib/permissions.ts
+    // Reports whose topic is gone can only be handled by staff
+    if (!can(session.user, "moderate", { topic: report.topic ?? undefined })) {
+        return {
+            errors: {
+                formError: ['You are not allowed to handle this report']
+            }
+        }
+    }
+
+    const { decision, note } = result.data;
+
+    // Same ranks as banning (app/action/ban.ts)
+    if (decision !== 'dismiss' && report.topic && report.author && !leadsTopic(session.user, report.topic) &&
+        (isStaff(report.author) || isTopicStaff(report.author, report.topic))) {
+        return {
+            errors: {
+                formError: ['Only the topic owner or site staff can act on this content']
+            }
+        }
+    }
+
+    // Why - the moderator's note, or the report's reason
+    const reason = note || reportReasonLabel(report.reason);
+
+    const resolved = {
+        status: DECISION_STATUS[decision],
+        resolverId: session.user.id,
+        resolution: note || null,
+        resolvedAt: new Date()
+    };
+
+    if (decision === 'warn') {
+        if (!report.authorId) {
+            return {
+                errors: {
+                    formError: ['The author of this content no longer exists']
+                }
+            }
+        }
+
+        const [warning] = await prisma.$transaction([
+            prisma.userWarning.create({
+                data: {
+                    userId: report.authorId,
+                    moderatorId: session.user.id,
+                    reportId: report.id,
+                    reason
+                }
+            }),
+            prisma.report.update({
+                where: { id: report.id },
+                data: resolved
+            })
+        ]);
+
+        await recordAudit({
+            actor: session.user,
+            action: "user.warn",
+            targetType: "user",
+            targetId: report.authorId,
+            after: { warningId: warning.id, reportId: report.id },
+            reason
+        });
+    } else if (decision === 'remove') {
+        // Close every open report on the same content, not just this one
+        // (before the removal - deleting a post clears postId on its reports)
+        await prisma.report.updateMany({
+            where: {
+                status: 'OPEN',
+                OR: [
+                    { id: report.id },
+                    ...(report.postId ? [{ postId: report.postId }] : []),
+                    ...(report.commentId ? [{ commentId: report.commentId }] : [])
+                ]
+            },
+            data: resolved
+        });
+
+        // The content may have been deleted by its author in the meantime
+        if (report.post) {
+            await removePost(report.post.id, { actor: session.user, reason });
+        } else if (report.comment && !report.comment.deletedAt) {
+            await removeComment(report.comment, { actor: session.user, reason });
+        }
+    } else {
+        await prisma.report.update({
+            where: { id: report.id },
+            data: resolved
+        });
+
+        await recordAudit({
+            actor: session.user,
+            action: "report.dismiss",
+            targetType: "report",
+            targetId: report.id,
+            reason: note
+        });
+    }
+
+    // Queue + reporter's profile show the decision
+    revalidatePath('/mod/queue');
+    revalidatePath('/profile');
+
+    // Removed content disappears from its pages
+    if (decision === 'remove' && report.topic) {
+        const postId = report.post?.id ?? report.comment?.postId;
+
+        revalidatePath(`/topic/${report.topic.slug}`);
+        if (postId) {
+            revalidatePath(`/topic/${report.topic.slug}/posts/${postId}`);
+        }
+        revalidatePath('/');
+    }
+
+    return {
+        success: true,
+        errors: {}
+    }
+}
@@ -0,0 +1,176 @@
+// app/action/search-query.ts
+//
+// Parser for the search syntax used by the search box and /search?term=...
+// Plain module (no "use server") so pages and the search action can share it.
+//
+// Syntax:
+//   react hooks topic:javascript author:alice after:2025-06-01 before:2026-01-01 type:posts
+//
+// - topic:<slug>           → only posts/comments in this topic
+// - author:<name>          → only by this author (quote names with spaces: author:"Jane Doe")
+// - after:<YYYY-MM-DD>     → created on or after this day
+// - before:<YYYY-MM-DD>    → created before this day
+// - type:posts | comments  → only posts or only comments
+//
+// Everything else is free text for full-text search.
+// A filter with an invalid value (e.g. before:yesterday) stays part of the text.
+
+// Parsed search type (shared with the search query)
+import type { SearchFilters } from "@/lib/query/search";
+
+// YYYY-MM-DD check
+import { isDay } from "@/lib/utils";
+
+/**
+ * Filter keys in the order they are written back into a query
+ */
+export const SEARCH_FILTER_KEYS = ["topic", "author", "after", "before", "type"] as const;
+
+/**
+ * TypeScript Type: SearchFilterKey
+ *
+ * One of the supported filter names ("topic", "author", ...)
+ */
+export type SearchFilterKey = (typeof SEARCH_FILTER_KEYS)[number];
+
+/**
+ * Tokenizer
+ *
+ * Matches, in order of preference:
+ * 1. key:"quoted value"
+ * 2. key:value
+ * 3. "quoted phrase" (kept as one text token)
+ * 4. any other word
+ */
+const TOKEN_REGEX = /(\w+):"([^"]*)"|(\w+):(\S+)|"[^"]*"|\S+/g;
+
+/**
+ * Function: applySearchFilter
+ *
+ * Validates a key:value token (or a filter form field) and stores it on the filters.
+ *
+ * @param filters - Filters being built (mutated)
+ * @param key - Token key
+ * @param value - Token value
+ * @returns boolean - false when the key is unknown or the value invalid
+ */
+export const applySearchFilter = (filters: SearchFilters, key: string, value: string): boolean => {
+    const name = key.toLowerCase();
+    const trimmed = value.trim();
+
+    if (!trimmed) {
+        return false;
+    }
+
+    switch (name) {
+        case "topic":
+            // Slugs are lowercase
+            filters.topic = trimmed.toLowerCase();
+            return true;
+        case "author":
+            filters.author = trimmed;
+            return true;
+        case "after":
+        case "before":
+            if (!isDay(trimmed)) {
+                return false;
+            }
+            filters[name] = trimmed;
+            return true;
+        case "type": {
+            // Accept singular and plural
+            const type = trimmed.toLowerCase().replace(/s$/, "");
+            if (type !== "post" && type !== "comment") {
+                return false;
+            }
+            filters.type = type;
+            return true;
+        }
+        default:
+            return false;
+    }
+}
+
+/**
+ * Function: parseSearchQuery
+ *
+ * Splits a raw query into free text and filters.
+ * When a filter appears twice, the last one wins.
+ *
+ * Example:
+ *   parseSearchQuery('hooks topic:react author:"Jane Doe"')
+ *   → { text: "hooks", topic: "react", author: "Jane Doe" }
+ *
+ * @param input - Raw query from the search box or URL
+ * @returns SearchFilters - Free text + recognised filters
+ */
+export const parseSearchQuery = (input: string): SearchFilters => {
+    const filters: SearchFilters = { text: "" };
+    const words: string[] = [];
+
+    for (const match of input.matchAll(TOKEN_REGEX)) {
+        const [token, quotedKey, quotedValue, key, value] = match;
+
+        const isFilter = quotedKey
+            ? applySearchFilter(filters, quotedKey, quotedValue)
+            : key
+                ? applySearchFilter(filters, key, value)
+                : false;
+
+        // Unknown keys, invalid values and plain words are free text
+        if (!isFilter) {
+            words.push(token);
+        }
+    }
+
+    filters.text = words.join(" ");
+
+    return filters;
+}
+
+/**
+ * Helper Function: formatFilterValue
+ *
+ * Writes a filter value back in query syntax (quoted when it has spaces).
+ */
+const formatFilterValue = (key: SearchFilterKey, value: string): string => {
+    // type is stored singular but written plural (type:posts)
+    const written = key === "type" ? `${value}s` : value;
+
+    return /\s/.test(written) ? `${key}:"${written}"` : `${key}:${written}`;
+}
+
+/**
+ * Function: formatSearchQuery
+ *
+ * Inverse of parseSearchQuery - turns filters back into a query string.
+ * Used to build links (e.g. a chip that removes one filter).
+ *
+ * @param filters - Free text + filters
+ * @returns string - Query string, e.g. 'hooks topic:react author:"Jane Doe"'
+ */
+export const formatSearchQuery = (filters: SearchFilters): string => {
+    const parts = [filters.text.trim()];
+
+    for (const key of SEARCH_FILTER_KEYS) {
+        const value = filters[key];
+
+        if (value) {
+            parts.push(formatFilterValue(key, value));
+        }
+    }
+
+    return parts.filter(Boolean).join(" ");
+}
+
+/**
+ * Function: hasSearchCriteria
+ *
+ * A search needs text or at least one filter.
+ *
+ * @param filters - Parsed search
+ * @returns boolean - true when there is something to search for
+ */
+export const hasSearchCriteria = (filters: SearchFilters): boolean => {
+    return filters.text.trim() !== "" || SEARCH_FILTER_KEYS.some((key) => filters[key]);
+}
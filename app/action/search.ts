@@ -8,16 +8,37 @@
 // Internally throws an error to stop execution (expected behavior)
 import { redirect } from "next/navigation";
 
+// Import search syntax helpers
+// parseSearchQuery - splits "hooks topic:react" into text + filters
+// applySearchFilter - validates one filter value (the filter form's fields)
+// formatSearchQuery - writes text + filters back into one query string
+import {
+    SEARCH_FILTER_KEYS,
+    applySearchFilter,
+    parseSearchQuery,
+    formatSearchQuery,
+    hasSearchCriteria
+} from "./search-query";
+
+// Parsed search type
+import type { SearchFilters } from "@/lib/query/search";
+
 /**
  * Server Action: search
  * 
  * This function handles search form submissions.
  * It extracts the search term from the form and redirects to the search results page.
  * 
+ * Two forms submit here:
+ * - The header search box: only 'term' (may contain filters, e.g. "hooks topic:react")
+ * - The filter form on /search: 'term' plus one field per filter
+ *   (topic, author, after, before, type) - an empty field removes that filter
+ * 
  * Flow:
- * 1. Get search term from form data
- * 2. Validate the search term (must be a non-empty string)
- * 3. Redirect to search results page with the term as a query parameter
+ * 1. Get search term from form data and parse it
+ * 2. Apply filter fields from the form (if present)
+ * 3. Validate there is something to search for (text or a filter)
+ * 4. Redirect to search results page with the combined query as a query parameter
  * 
  * @param formData - Form data from the search form (contains 'term' field)
  */
@@ -27,11 +48,37 @@ export const search = async (formData: FormData) => {
     // Returns string | File | null
     const term = formData.get('term');
 
-    // Validate the search term
-    // Check if term is NOT a string OR if it's an empty string
-    // typeof term !== "string" - ensures term is a string (not File or null)
-    // !term - ensures term is not empty (empty string is falsy)
-    if(typeof term !== "string" || !term){
+    // Split the term into free text + filters written in the query syntax
+    const typed = parseSearchQuery(typeof term === "string" ? term : "");
+
+    // Filter fields sent by the filter form (the header box sends none)
+    const submitted = SEARCH_FILTER_KEYS.filter((key) => formData.has(key));
+
+    // Check the fields with the same rules as typed filters (no tokenizing -
+    // a value is one filter whatever it contains)
+    // Empty fields are left out, invalid values (e.g. a malformed date) are dropped
+    const fromFields: SearchFilters = { text: "" };
+
+    for (const key of submitted) {
+        const value = formData.get(key);
+
+        if (typeof value === "string") {
+            // The query syntax can't quote a '"', so it couldn't be written back
+            applySearchFilter(fromFields, key, value.replace(/"/g, ""));
+        }
+    }
+
+    // Submitted fields replace the same filters typed into the term
+    for (const key of submitted) {
+        delete typed[key];
+    }
+
+    // Typed text + remaining typed filters + filters from the fields
+    const filters = { ...fromFields, ...typed };
+
+    // Validate the search
+    // Nothing to search for - no text and no filters
+    if (!hasSearchCriteria(filters)) {
         // If invalid, redirect to home page
         // This prevents searching with empty or invalid terms
         redirect("/");
@@ -39,7 +86,8 @@ export const search = async (formData: FormData) => {
 
     // Redirect to search results page with the search term as a query parameter
     // `/search?term=${term}` - the search page URL with query parameter
-    // Example: "/search?term=javascript"
+    // Example: "/search?term=javascript%20topic%3Areact"
+    // encodeURIComponent - keeps phrases ("server actions") and symbols intact
     // The search page will read this query parameter and display results
-    redirect(`/search?term=${term}`);
+    redirect(`/search?term=${encodeURIComponent(formatSearchQuery(filters))}`);
 }
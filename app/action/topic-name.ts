@@ -0,0 +1,14 @@
+// app/action/topic-name.ts
+//
+// Validation rule for topic names (the slug in /topic/<name>).
+// Plain module (no "use server") so creating and renaming topics share it.
+
+// Import Zod validation library
+import { z } from "zod";
+
+/**
+ * Topic name: at least 3 lowercase letters or hyphens (URL-friendly)
+ * Example valid: "javascript", "react-native", "node-js"
+ * Example invalid: "JavaScript" (uppercase), "react native" (space)
+ */
+export const topicNameSchema = z.string().min(3).regex(/^[a-z-]+$/, { message: "Must be lowercase letter without spaces" });
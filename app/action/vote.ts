@@ -0,0 +1,212 @@
+// app/action/vote.ts
+//
+// Server Action for voting on posts and comments.
+// Each user has at most one vote per post/comment (+1 or -1).
+// The post/comment keeps a cached `score` (sum of all votes) for sorting.
+
+// "use server" directive - marks this file as containing Server Actions
+// Server Actions run on the server, not in the browser
+'use server'
+
+// Import NextAuth function for server-side session retrieval
+// getServerSession - gets the user session on the server (secure)
+import { getServerSession } from "next-auth";
+
+// Import NextAuth configuration
+// authOptions contains our authentication setup
+import { authOptions } from "@/lib/auth";
+
+// Import Prisma client instance
+// Prisma is an ORM for type-safe database operations
+import { prisma } from "@/lib";
+
+// Prisma errors (unique constraint violations)
+import { Prisma } from "@prisma/client";
+
+// Ban / suspension check (lib/bans.ts)
+import { findActiveBan, describeBan } from "@/lib/bans";
+
+// Import Next.js cache revalidation function
+// revalidatePath - invalidates cached data for a specific path
+import { revalidatePath } from "next/cache";
+
+/**
+ * TypeScript Type: VoteTarget
+ *
+ * What is being voted on - either a post or a comment, never both.
+ */
+export type VoteTarget = { postId: string } | { commentId: string };
+
+/**
+ * TypeScript Type: VoteResult
+ *
+ * Returned to the client so the vote controls can update without a reload:
+ * - score: the new cached score of the post/comment
+ * - vote: the user's vote after the toggle (0 = no vote)
+ */
+export type VoteResult = {
+    score: number;
+    vote: number;
+}
+
+/**
+ * Server Action: toggleVote
+ *
+ * Casts, switches or removes the current user's vote.
+ *
+ * Toggle rules:
+ * - No vote yet          → create the vote            (score += value)
+ * - Same vote again      → remove the vote            (score -= value)
+ * - Opposite vote exists → switch to the new value    (score += 2 * value)
+ *
+ * Flow:
+ * 1. Validate the vote value
+ * 2. Check user authentication, bans (and that the comment isn't deleted)
+ * 3. Update vote + cached score in one transaction
+ * 4. Revalidate pages that show the score
+ *
+ * @param target - { postId } or { commentId }
+ * @param value - 1 (upvote) or -1 (downvote)
+ * @returns Promise<VoteResult> - New score and the user's current vote
+ */
+export const toggleVote = async (target: VoteTarget, value: number): Promise<VoteResult> => {
+    // Only upvotes and downvotes are allowed
+    if (value !== 1 && value !== -1) {
+        throw new Error('Invalid vote');
+    }
+
+    // Get the current user's session from the server
+    // This verifies the user is logged in
+    const session = await getServerSession(authOptions);
+
+    // Check if user is NOT authenticated
+    if (!session || !session.user || !session.user.id) {
+        throw new Error('You must be logged in to vote');
+    }
+
+    const userId = session.user.id;
+
+    // Rebuild the target from known keys only
+    // (arguments of a Server Action come from the browser and can't be trusted)
+    const voteTarget = 'postId' in target
+        ? { postId: String(target.postId) }
+        : { commentId: String(target.commentId) };
+
+    // Topic of the voted post/comment (banned users can't vote there)
+    // Deleted comments are tombstones - they can't be voted on
+    let topicId: string;
+
+    if ('commentId' in voteTarget) {
+        const comment = await prisma.comment.findUnique({
+            where: { id: voteTarget.commentId },
+            select: { deletedAt: true, post: { select: { topicId: true } } }
+        });
+
+        if (!comment || comment.deletedAt) {
+            throw new Error('Comment not found');
+        }
+
+        topicId = comment.post.topicId;
+    } else {
+        const post = await prisma.post.findUnique({
+            where: { id: voteTarget.postId },
+            select: { topicId: true }
+        });
+
+        if (!post) {
+            throw new Error('Post not found');
+        }
+
+        topicId = post.topicId;
+    }
+
+    const ban = await findActiveBan(userId, topicId);
+
+    if (ban) {
+        throw new Error(describeBan(ban));
+    }
+
+    // Interactive transaction - reading the existing vote and updating the
+    // score must happen together, otherwise two quick clicks could count twice
+    const castVote = () => prisma.$transaction(async (tx) => {
+        // Find the user's existing vote on this post/comment (if any)
+        const existing = await tx.vote.findFirst({
+            where: { userId, ...voteTarget },
+            select: { id: true, value: true }
+        });
+
+        // Work out the new vote and how much the score changes
+        let vote: number;
+        let delta: number;
+
+        if (!existing) {
+            // First vote
+            await tx.vote.create({
+                data: { userId, value, ...voteTarget }
+            });
+            vote = value;
+            delta = value;
+        } else if (existing.value === value) {
+            // Same button again - take the vote back
+            await tx.vote.delete({ where: { id: existing.id } });
+            vote = 0;
+            delta = -value;
+        } else {
+            // Opposite button - flip the vote
+            await tx.vote.update({
+                where: { id: existing.id },
+                data: { value }
+            });
+            vote = value;
+            delta = 2 * value;
+        }
+
+        // Update the cached score on the post or comment
+        // increment - atomic "score = score + delta" in SQL
+        if ('postId' in voteTarget) {
+            const post = await tx.post.update({
+                where: { id: voteTarget.postId },
+                data: { score: { increment: delta } },
+                select: { id: true, score: true, topic: { select: { slug: true } } }
+            });
+
+            return { score: post.score, vote, postId: post.id, slug: post.topic.slug };
+        }
+
+        const comment = await tx.comment.update({
+            where: { id: voteTarget.commentId },
+            data: { score: { increment: delta } },
+            select: { score: true, postId: true, post: { select: { topic: { select: { slug: true } } } } }
+        });
+
+        return { score: comment.score, vote, postId: comment.postId, slug: comment.post.topic.slug };
+    });
+
+    let result: Awaited<ReturnType<typeof castVote>>;
+
+    try {
+        result = await castVote();
+    } catch (error: unknown) {
+        // Two first votes at the same time: the other one took the unique
+        // (user, post/comment) slot - run again, now seeing that vote
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+            throw error;
+        }
+
+        result = await castVote();
+    }
+
+    // Revalidate every page that shows this score
+    revalidatePath(`/topic/${result.slug}/posts/${result.postId}`);
+
+    if ('postId' in voteTarget) {
+        // Post scores also show (and sort) on the topic page and home page
+        revalidatePath(`/topic/${result.slug}`);
+        revalidatePath('/');
+    }
+
+    return {
+        score: result.score,
+        vote: result.vote
+    }
+}
@@ -0,0 +1,88 @@
+import { redirect } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+
+import AuditFilters from "@/components/audit/audit-filters";
+import AuditLogEntry from "@/components/audit/audit-log-entry";
+import PostPagination from "@/components/posts/post-pagination";
+import { fetchAuditLog, parseAuditFilters } from "@/lib/query/audit";
+
+/**
+ * Page props
+ * Filters and cursor come from the query string:
+ * /admin/audit?action=post.delete&actor=alice&after=2026-01-01&cursor=abc
+ */
+type AuditLogPageProps = {
+  searchParams: Promise<{
+    action?: string;
+    actor?: string;
+    targetType?: string;
+    targetId?: string;
+    after?: string;
+    before?: string;
+    cursor?: string;
+  }>;
+};
+
+/**
+ * AuditLogPage (Server Component)
+ *
+ * Responsibility:
+ * - Show the audit log to admins, newest first
+ * - Filter by action, moderator, target and date
+ */
+const AuditLogPage = async ({ searchParams }: AuditLogPageProps) => {
+  const session = await getServerSession(authOptions);
+
+  if (!session || !session.user) {
+    redirect("/");
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return (
+      <div className="rounded border bg-white p-6 text-center text-gray-600">
+        The audit log is only available to admins
+      </div>
+    );
+  }
+
+  const { cursor, ...query } = await searchParams;
+  const filters = parseAuditFilters(query);
+
+  const page = await fetchAuditLog(filters, { cursor: cursor || undefined });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Audit log</h1>
+        <p className="text-sm text-gray-500">
+          Moderator and admin actions. Entries can&apos;t be changed or removed.
+        </p>
+      </div>
+
+      <AuditFilters filters={filters} />
+
+      {page.items.length === 0 ? (
+        <div className="rounded border bg-white p-8 text-center text-gray-500">
+          No entries found
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {page.items.map((entry) => (
+            <AuditLogEntry key={entry.id} entry={entry} />
+          ))}
+        </ul>
+      )}
+
+      {/* Filters are kept in the URL of every page */}
+      <PostPagination
+        basePath="/admin/audit"
+        params={{ ...filters }}
+        cursor={cursor || undefined}
+        nextCursor={page.nextCursor}
+      />
+    </div>
+  );
+};
+
+export default AuditLogPage;
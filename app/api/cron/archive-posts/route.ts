@@ -0,0 +1,27 @@
+// app/api/cron/archive-posts/route.ts
+//
+// Scheduled endpoint that archives inactive posts.
+// Called by Vercel Cron (see vercel.json).
+
+// Archive routine (period from ARCHIVE_AFTER_DAYS)
+import { archiveInactivePosts } from "@/lib/jobs/archive-posts";
+
+// Cron secret check
+import { isAuthorizedCron } from "@/lib/jobs/cron-auth";
+
+/**
+ * GET /api/cron/archive-posts
+ *
+ * Only Vercel Cron may call it (see lib/jobs/cron-auth.ts).
+ */
+export async function GET(request: Request) {
+  // Reject callers that don't know the cron secret
+  if (!isAuthorizedCron(request)) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  // Archive posts without activity for ARCHIVE_AFTER_DAYS days
+  const archived = await archiveInactivePosts();
+
+  return Response.json({ archived });
+}
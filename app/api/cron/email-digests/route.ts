@@ -0,0 +1,27 @@
+// app/api/cron/email-digests/route.ts
+//
+// Scheduled endpoint that emails daily / weekly notification digests.
+// Called by Vercel Cron once a day (see vercel.json).
+
+// Digest routine (respects each user's email frequency)
+import { sendEmailDigests } from "@/lib/jobs/email-digests";
+
+// Cron secret check
+import { isAuthorizedCron } from "@/lib/jobs/cron-auth";
+
+/**
+ * GET /api/cron/email-digests
+ *
+ * Only Vercel Cron may call it (see lib/jobs/cron-auth.ts).
+ */
+export async function GET(request: Request) {
+  // Reject callers that don't know the cron secret
+  if (!isAuthorizedCron(request)) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  // Daily digests every run, weekly ones when a week has passed
+  const { sent, failed } = await sendEmailDigests();
+
+  return Response.json({ sent, failed });
+}
@@ -0,0 +1,27 @@
+// app/api/cron/purge-comments/route.ts
+//
+// Scheduled endpoint that purges comment tombstones without replies.
+// Called by Vercel Cron (see vercel.json).
+
+// Cleanup routine for soft-deleted comments
+import { purgeDeletedComments } from "@/lib/jobs/purge-comments";
+
+// Cron secret check
+import { isAuthorizedCron } from "@/lib/jobs/cron-auth";
+
+/**
+ * GET /api/cron/purge-comments
+ *
+ * Only Vercel Cron may call it (see lib/jobs/cron-auth.ts).
+ */
+export async function GET(request: Request) {
+  // Reject callers that don't know the cron secret
+  if (!isAuthorizedCron(request)) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  // Purge tombstones across all posts
+  const purged = await purgeDeletedComments();
+
+  return Response.json({ purged });
+}
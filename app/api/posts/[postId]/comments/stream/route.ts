@@ -0,0 +1,103 @@
+// app/api/posts/[postId]/comments/stream/route.ts
+//
+// Server-Sent Events stream of a post's comment events
+// (created / updated / deleted - see lib/comment-events.ts).
+// The post page listens to it and refreshes its comments live.
+
+// Session (only logged-in users can see posts)
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+
+// Import Prisma client instance
+import { prisma } from "@/lib";
+
+// Comment events of one post
+import { subscribeToComments } from "@/lib/comment-events";
+
+/**
+ * A comment line every 25 seconds keeps proxies from closing an idle stream
+ */
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * GET /api/posts/[postId]/comments/stream
+ *
+ * Sends "comment" events until the browser disconnects.
+ * EventSource reconnects by itself; events published while it
+ * was away are not replayed.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session || !session.user) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { postId } = await params;
+
+  const post = await prisma.post.findUnique({
+    where: { id: postId },
+    select: { id: true },
+  });
+
+  if (!post) {
+    return new Response("Post not found", { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+
+  // Set in start(), called on disconnect (abort) or cancel
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const send = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      const unsubscribe = subscribeToComments(post.id, (event) => {
+        send(`event: comment\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+
+      stop = () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      };
+
+      request.signal.addEventListener("abort", () => stop());
+
+      // Reconnect after 5 seconds if the connection drops
+      send("retry: 5000\n\n");
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Don't let nginx buffer the stream
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
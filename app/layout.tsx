@@ -4,6 +4,9 @@
 // This imports Tailwind base styles and any global styles
 import "./globals.css";
 
+// Syntax highlighting theme for code blocks in rendered Markdown
+import "highlight.js/styles/github.css";
+
 // Providers component
 // This wraps the entire app with NextAuth SessionProvider
 import Providers from "@/components/providers";
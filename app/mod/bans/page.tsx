@@ -0,0 +1,107 @@
+import { redirect } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+
+import { prisma } from "@/lib";
+import BanForm from "@/components/bans/ban-form";
+import LiftBanButton from "@/components/bans/lift-ban-button";
+import UserLink from "@/components/users/user-link";
+import { fetchActiveBansForModerator } from "@/lib/query/ban";
+import { fetchModeratedTopics } from "@/lib/query/topic";
+import { isStaff } from "@/lib/permissions";
+
+// Format a day (ban / suspension dates)
+const formatDate = (date: Date) =>
+  new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+/**
+ * BansPage (Server Component)
+ *
+ * Responsibility:
+ * - Ban or suspend users (site-wide for staff, per topic for topic staff)
+ * - List active bans with a button to lift them
+ */
+const BansPage = async () => {
+  const session = await getServerSession(authOptions);
+
+  if (!session || !session.user || !session.user.id) {
+    redirect("/");
+  }
+
+  const viewer = session.user;
+
+  // Staff can ban from every topic, topic staff from their own
+  const topics = isStaff(viewer)
+    ? await prisma.topic.findMany({
+        select: { slug: true },
+        orderBy: { slug: "asc" },
+      })
+    : await fetchModeratedTopics(viewer.id);
+
+  // Not a moderator anywhere
+  if (!isStaff(viewer) && topics.length === 0) {
+    return (
+      <div className="rounded border bg-white p-6 text-center text-gray-600">
+        Bans are only available to moderators
+      </div>
+    );
+  }
+
+  const bans = await fetchActiveBansForModerator(viewer);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Bans</h1>
+        <p className="text-sm text-gray-500">
+          Banned and suspended users can&apos;t post, comment, edit or vote
+          where the ban applies.
+        </p>
+      </div>
+
+      <BanForm topics={topics} canBanSiteWide={isStaff(viewer)} />
+
+      <h2 className="text-lg font-semibold text-gray-900">Active bans</h2>
+
+      {bans.length === 0 ? (
+        <div className="rounded border bg-white p-8 text-center text-gray-500">
+          Nobody is banned
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {bans.map((ban) => (
+            <li
+              key={ban.id}
+              className="flex items-center justify-between gap-4 rounded border bg-white p-3 text-sm"
+            >
+              <div>
+                <p className="font-medium text-gray-900">
+                  <UserLink user={ban.user} />{" "}
+                  <span className="font-normal text-gray-500">
+                    {ban.topic ? `in #${ban.topic.slug}` : "site-wide"} ·{" "}
+                    {ban.expiresAt
+                      ? `suspended until ${formatDate(ban.expiresAt)}`
+                      : "banned"}
+                  </span>
+                </p>
+                <p className="text-gray-600">{ban.reason}</p>
+                <p className="text-xs text-gray-400">
+                  By {ban.createdBy?.name || "a moderator"} on{" "}
+                  {formatDate(ban.createdAt)}
+                </p>
+              </div>
+
+              <LiftBanButton banId={ban.id} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BansPage;
@@ -0,0 +1,76 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+
+import ReportQueueItem from "@/components/reports/report-queue-item";
+import { fetchOpenReports } from "@/lib/query/report";
+import { fetchModeratedTopics } from "@/lib/query/topic";
+import { isStaff } from "@/lib/permissions";
+
+/**
+ * ModerationQueuePage (Server Component)
+ *
+ * Responsibility:
+ * - List open reports, oldest first
+ *   Admins and site moderators see all of them,
+ *   topic owners/moderators only those in their topics
+ * - Let moderators dismiss a report, remove the content or warn the author
+ */
+const ModerationQueuePage = async () => {
+  const session = await getServerSession(authOptions);
+
+  if (!session || !session.user || !session.user.id) {
+    redirect("/");
+  }
+
+  const viewer = session.user;
+
+  // Topics this user runs (empty for staff who don't own any - they see everything anyway)
+  const topics = isStaff(viewer) ? [] : await fetchModeratedTopics(viewer.id);
+
+  // Not a moderator anywhere
+  if (!isStaff(viewer) && topics.length === 0) {
+    return (
+      <div className="rounded border bg-white p-6 text-center text-gray-600">
+        The moderation queue is only available to moderators
+      </div>
+    );
+  }
+
+  const reports = await fetchOpenReports(viewer);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="text-2xl font-semibold text-gray-900">
+            Moderation queue
+          </h1>
+          <Link href="/mod/bans" className="text-sm text-blue-600 hover:underline">
+            Bans
+          </Link>
+        </div>
+        <p className="text-sm text-gray-500">
+          {isStaff(viewer)
+            ? "Open reports from all topics"
+            : `Open reports in ${topics.map((topic) => `#${topic.slug}`).join(", ")}`}
+        </p>
+      </div>
+
+      {reports.length === 0 ? (
+        <div className="rounded border bg-white p-8 text-center text-gray-500">
+          No open reports - all caught up
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {reports.map((report) => (
+            <ReportQueueItem key={report.id} report={report} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ModerationQueuePage;
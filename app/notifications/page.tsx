@@ -0,0 +1,84 @@
+// app/notifications/page.tsx
+
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { redirect } from "next/navigation";
+
+import NotificationItem from "@/components/notifications/notification-item";
+import MarkAllReadButton from "@/components/notifications/mark-all-read-button";
+import PostPagination from "@/components/posts/post-pagination";
+import {
+  countUnreadNotifications,
+  fetchNotifications,
+} from "@/lib/query/notification";
+
+/**
+ * Page props
+ * cursor comes from the query string: /notifications?cursor=abc
+ */
+type NotificationsPageProps = {
+  searchParams: Promise<{ cursor?: string }>;
+};
+
+/**
+ * NotificationsPage (Server Component)
+ *
+ * Responsibility:
+ * - Show the user's notifications, newest first (unread highlighted)
+ * - Mark one or all of them as read
+ */
+const NotificationsPage = async ({ searchParams }: NotificationsPageProps) => {
+  const session = await getServerSession(authOptions);
+
+  if (!session || !session.user || !session.user.id) {
+    redirect("/");
+  }
+
+  const { cursor } = await searchParams;
+
+  const [page, unread] = await Promise.all([
+    fetchNotifications(session.user.id, { cursor: cursor || undefined }),
+    countUnreadNotifications(session.user.id),
+  ]);
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-4">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">
+            Notifications
+          </h1>
+          <p className="text-sm text-gray-500">
+            Replies to your posts and comments, and @mentions of you
+            {unread > 0 && ` · ${unread} unread`}
+          </p>
+        </div>
+
+        {unread > 0 && <MarkAllReadButton />}
+      </div>
+
+      {page.items.length === 0 ? (
+        <div className="rounded border bg-white p-8 text-center text-gray-500">
+          No notifications yet
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {page.items.map((notification) => (
+            <NotificationItem
+              key={notification.id}
+              notification={notification}
+            />
+          ))}
+        </ul>
+      )}
+
+      <PostPagination
+        basePath="/notifications"
+        cursor={cursor || undefined}
+        nextCursor={page.nextCursor}
+      />
+    </div>
+  );
+};
+
+export default NotificationsPage;
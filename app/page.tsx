@@ -1,13 +1,33 @@
 // app/page.tsx
 
+import Link from "next/link";
 import PostList from "@/components/posts/post-list";
+import LoadMorePosts from "@/components/posts/load-more-posts";
 import TopicCreateForm from "@/components/topic/topic-create-form";
 import TopicList from "@/components/topic/topic-list";
-import { fetchTopPosts } from "@/lib/query/post";
+import {
+  fetchAnnouncements,
+  fetchTopPosts,
+  type TopPostsWindow,
+} from "@/lib/query/post";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 
-export default async function Home() {
+/**
+ * Time window tabs for "Top Discussions"
+ * Selected through the query string: /?window=week
+ */
+const WINDOW_OPTIONS: { value: TopPostsWindow; label: string }[] = [
+  { value: "today", label: "Today" },
+  { value: "week", label: "This week" },
+  { value: "all", label: "All time" },
+];
+
+type HomeProps = {
+  searchParams: Promise<{ window?: string }>;
+};
+
+export default async function Home({ searchParams }: HomeProps) {
   const session = await getServerSession(authOptions);
 
   // -----------------------------
@@ -40,11 +60,32 @@ export default async function Home() {
   // -----------------------------
   // AUTHENTICATED VIEW
   // -----------------------------
+
+  // Unknown values fall back to "all"
+  const requested = (await searchParams).window;
+  const timeWindow: TopPostsWindow =
+    WINDOW_OPTIONS.find((option) => option.value === requested)?.value ?? "all";
+
+  // First page is rendered on the server, "Load more" fetches the rest
+  const firstPage = await fetchTopPosts({ timeWindow });
+
+  // Site-wide announcements (posted by admins) above the discussions
+  const announcements = await fetchAnnouncements();
+
   return (
     <div className="grid grid-cols-1 gap-8 lg:grid-cols-4">
       
       {/* ================= LEFT: POSTS ================= */}
       <section className="lg:col-span-3">
+        {announcements.length > 0 && (
+          <div className="mb-8">
+            <h2 className="mb-3 text-lg font-semibold text-gray-900">
+              Announcements
+            </h2>
+            <PostList fetchData={async () => announcements} />
+          </div>
+        )}
+
         <div className="mb-6">
           <h1 className="text-2xl font-bold text-gray-900">
             Top Discussions
@@ -54,7 +95,33 @@ export default async function Home() {
           </p>
         </div>
 
-        <PostList fetchData={fetchTopPosts} />
+        {/* Time window tabs */}
+        <div className="mb-4 flex gap-4 border-b text-sm font-medium text-gray-600">
+          {WINDOW_OPTIONS.map((option) => (
+            <Link
+              key={option.value}
+              href={`/?window=${option.value}`}
+              className={
+                timeWindow === option.value
+                  ? "border-b-2 border-black pb-2 text-black"
+                  : "pb-2 hover:text-gray-900"
+              }
+            >
+              {option.label}
+            </Link>
+          ))}
+        </div>
+
+        <PostList fetchData={async () => firstPage.items} />
+
+        {/* key resets the loaded pages when the window changes */}
+        {firstPage.nextCursor && (
+          <LoadMorePosts
+            key={timeWindow}
+            timeWindow={timeWindow}
+            initialCursor={firstPage.nextCursor}
+          />
+        )}
       </section>
 
       {/* ================= RIGHT: SIDEBAR ================= */}
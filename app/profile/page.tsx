@@ -3,15 +3,24 @@
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { redirect } from "next/navigation";
+import Link from "next/link";
 
 import { prisma } from "@/lib";
 import PostList from "@/components/posts/post-list";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import ReportHistory from "@/components/reports/report-history";
+import EmailSettingsForm from "@/components/notifications/email-settings-form";
+import { fetchWarnings } from "@/lib/query/report";
+import { fetchActiveBans } from "@/lib/query/ban";
+import { describeBan } from "@/lib/bans";
 
 /**
  * Profile Page
  * - Shows user info
  * - Shows user's own posts
+ * - Shows active bans / suspensions, warnings from moderators
+ *   and the user's reports (with decisions)
+ * - Email notification settings
  */
 const ProfilePage = async () => {
   const session = await getServerSession(authOptions);
@@ -33,6 +42,16 @@ const ProfilePage = async () => {
     });
   };
 
+  // Restrictions and warnings from moderators (shown only when there are any)
+  const bans = await fetchActiveBans(session.user.id);
+  const warnings = await fetchWarnings(session.user.id);
+
+  // How often notifications are emailed
+  const settings = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { email: true, emailFrequency: true },
+  });
+
   return (
     <div className="max-w-5xl mx-auto px-6 py-8 space-y-8">
       {/* ================= PROFILE HEADER ================= */}
@@ -46,7 +65,7 @@ const ProfilePage = async () => {
         </Avatar>
 
         {/* User Info */}
-        <div>
+        <div className="flex-1">
           <h1 className="text-2xl font-bold text-gray-900">
             {session.user.name || "My Profile"}
           </h1>
@@ -54,22 +73,91 @@ const ProfilePage = async () => {
             {session.user.email}
           </p>
         </div>
+
+        {/* What everyone else sees */}
+        <Link
+          href={`/users/${session.user.id}`}
+          className="text-sm text-gray-600 hover:text-gray-900 hover:underline"
+        >
+          View public profile
+        </Link>
       </div>
 
+      {/* ================= ACTIVE BANS ================= */}
+      {bans.length > 0 && (
+        <div className="space-y-2">
+          {bans.map((ban) => (
+            <div
+              key={ban.id}
+              className="rounded border border-red-300 bg-red-50 p-3 text-sm text-red-700"
+            >
+              {describeBan(ban)}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* ================= TABS ================= */}
       <div className="border-b flex gap-6 text-sm font-medium text-gray-600">
         <span className="border-b-2 border-black pb-2 text-black">
           Posts
         </span>
-        <span className="pb-2 cursor-not-allowed opacity-50">
-          Comments (soon)
-        </span>
+        <Link
+          href={`/users/${session.user.id}?tab=comments`}
+          className="pb-2 hover:text-gray-900"
+        >
+          Comments
+        </Link>
       </div>
 
       {/* ================= POSTS ================= */}
       <div>
         <PostList fetchData={fetchMyPosts} />
       </div>
+
+      {/* ================= WARNINGS ================= */}
+      {warnings.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold text-gray-900">Warnings</h2>
+          <ul className="space-y-2">
+            {warnings.map((warning) => (
+              <li
+                key={warning.id}
+                className="rounded border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900"
+              >
+                <p>{warning.reason}</p>
+                <p className="mt-1 text-xs text-amber-700">
+                  From {warning.moderator?.name || "a moderator"} on{" "}
+                  {new Date(warning.createdAt).toLocaleDateString("en-US", {
+                    year: "numeric",
+                    month: "short",
+                    day: "numeric",
+                  })}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {/* ================= EMAIL NOTIFICATIONS ================= */}
+      {settings && (
+        <section id="email-notifications" className="space-y-3">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Email notifications
+          </h2>
+          <EmailSettingsForm
+            frequency={settings.emailFrequency}
+            email={settings.email}
+          />
+        </section>
+      )}
+
+      {/* ================= REPORTS ================= */}
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-900">Your reports</h2>
+        <ReportHistory userId={session.user.id} />
+      </section>
     </div>
   );
 };
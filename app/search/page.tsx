@@ -1,10 +1,24 @@
-// Import PostList component
-// PostList - displays a list of posts in card format
-import PostList from "@/components/posts/post-list";
+// Import SearchResultItem component
+// SearchResultItem - displays one post or comment hit with highlighted matches
+import SearchResultItem from "@/components/search/search-result-item";
 
-// Import query function to search posts
-// fetchPostBySearch - searches posts by title or content
-import { fetchPostBySearch } from "@/lib/query/post";
+// Import search filter components
+// SearchFilters - filter form (topic, author, dates, type)
+// SearchFilterChips - active filters as removable chips
+import SearchFilters from "@/components/search/search-filters";
+import SearchFilterChips from "@/components/search/search-filter-chips";
+
+// Import search syntax parser
+// parseSearchQuery - splits "hooks topic:react" into text + filters
+import { parseSearchQuery, hasSearchCriteria } from "@/app/action/search-query";
+
+// Import PostPagination component
+// PostPagination - "First page" / "Next page" links (?cursor=...)
+import PostPagination from "@/components/posts/post-pagination";
+
+// Import query function to search posts and comments
+// fetchSearchResults - full-text search, most relevant first (one page at a time)
+import { fetchSearchResults } from "@/lib/query/search";
 
 // Import NextAuth function for server-side session retrieval
 // getServerSession - gets the user session on the server
@@ -27,27 +41,29 @@ import React from "react";
  * Next.js App Router pages receive searchParams as a prop.
  * In Next.js 15+, searchParams is a Promise that must be awaited.
  * 
- * searchParams - URL query parameters (e.g., ?term=javascript)
+ * searchParams - URL query parameters (e.g., ?term=javascript&cursor=abc)
  * - term?: string - optional search term from URL query string
+ * - cursor?: string - optional cursor of the current results page
  */
 type SearchPageProps = {
-  searchParams: Promise<{ term?: string }>;  // Promise containing URL query parameters
+  searchParams: Promise<{ term?: string; cursor?: string }>;  // Promise containing URL query parameters
 };
 
 /**
  * Search Page Component (Server Component)
  * 
- * Displays search results for posts.
+ * Displays search results for posts and comments.
  * 
  * This is an async Server Component - it can fetch data directly from the database.
  * Server Components run on the server and send HTML to the browser.
  * 
  * Flow:
- * 1. Extract search term from URL query parameters
- * 2. If no term, show message asking for search term
- * 3. If term exists, search posts and display results
+ * 1. Extract search term from URL query parameters and parse its filters
+ * 2. If no text and no filters, show message asking for search term
+ * 3. Otherwise search posts and comments and display results
  * 
- * URL format: /search?term=javascript
+ * URL format: /search?term=javascript (next pages add &cursor=...)
+ * Filters are part of the term: /search?term=hooks%20topic%3Areact
  * 
  * @param searchParams - URL query parameters (contains search term)
  */
@@ -71,39 +87,80 @@ const SearchPage: React.FC<SearchPageProps> = async ({ searchParams }) => {
   // || operator - if left side is falsy (undefined, null, empty), use right side
   const term = params.term || "";
 
-  // Check if no search term was provided
-  if (!term) {
+  // Split the term into free text + filters (topic:, author:, ...)
+  const filters = parseSearchQuery(term);
+
+  // Cursor of the current results page (missing on the first page)
+  const cursor = params.cursor || undefined;
+
+  // Check if nothing to search for was provided
+  if (!hasSearchCriteria(filters)) {
     // Return empty state - ask user to enter a search term
     return (
-      <div className="p-4">
+      <div className="space-y-4 p-4">
         {/* Page heading */}
         <h1 className="text-xl font-bold">Search</h1>
         
         {/* Empty state message */}
         {/* text-gray-500 - gray text color */}
         <p className="text-gray-500">Please enter a search term</p>
+
+        {/* Filter form (search by filters only, e.g. all posts of an author) */}
+        <SearchFilters filters={filters} />
       </div>
     );
   }
 
-  // If search term exists, display search results
+  // If search term exists, fetch one page of results
+  // page.items - matching posts/comments, page.nextCursor - cursor for the next page
+  const page = await fetchSearchResults(filters, { cursor });
+
+  // Display search results
   return (
-    <div className="p-4">
+    <div className="space-y-4 p-4">
       {/* Search results heading */}
       {/* text-blue-600 - blue text color */}
       {/* font-medium - medium font weight */}
       {/* italic - italic text style */}
-      {/* mb-4 - margin bottom (1rem = 16px) */}
-      {/* Displays the search term that was used */}
-      <h1 className="text-blue-600 font-medium italic mb-4">
-        Search result for {term}
+      {/* Displays the search text that was used (filters are shown as chips) */}
+      <h1 className="text-blue-600 font-medium italic">
+        {filters.text ? `Search result for ${filters.text}` : "Search results"}
       </h1>
+
+      {/* Active filters - click a chip to remove that filter */}
+      <SearchFilterChips filters={filters} />
+
+      {/* Filter form (collapsed by default) */}
+      <details>
+        <summary className="cursor-pointer text-sm text-gray-600">
+          Filters
+        </summary>
+        <div className="mt-2">
+          <SearchFilters filters={filters} />
+        </div>
+      </details>
       
-      {/* PostList component with search results */}
-      {/* fetchData={() => fetchPostBySearch(term)} - passes a function that searches posts */}
-      {/* Arrow function creates a function that calls fetchPostBySearch with the term */}
-      {/* PostList will call this function to get the search results */}
-      <PostList fetchData={() => fetchPostBySearch(term)} />
+      {/* Search results with highlighted excerpts */}
+      {page.items.length === 0 ? (
+        <div className="rounded border bg-white p-8 text-center text-gray-500">
+          No results found
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {page.items.map((result) => (
+            <SearchResultItem key={result.id} result={result} />
+          ))}
+        </div>
+      )}
+
+      {/* Links to the next page / back to the first page */}
+      {/* term is kept in the URL so every results page is shareable */}
+      <PostPagination
+        basePath="/search"
+        params={{ term }}
+        cursor={cursor}
+        nextCursor={page.nextCursor}
+      />
     </div>
   );
 };
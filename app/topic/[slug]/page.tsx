@@ -1,30 +1,54 @@
 import React from "react";
-import { redirect } from "next/navigation";
+import { permanentRedirect, redirect } from "next/navigation";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 
 import { prisma } from "@/lib";
 import PostList from "@/components/posts/post-list";
 import PostCreateForm from "@/components/posts/post-create-form";
-import { fetchPostByTopicSlug } from "@/lib/query/post";
+import PostPagination from "@/components/posts/post-pagination";
+import TopicTeam from "@/components/topic/topic-team";
+import TopicManagePanel from "@/components/topic/topic-manage-panel";
+import TopicAbout from "@/components/topic/topic-about";
+import { TOPIC_COLORS, topicDisplayName } from "@/components/topic/topic-style";
+import {
+  fetchPinnedPosts,
+  fetchPostByTopicSlug,
+  type PostSort,
+} from "@/lib/query/post";
+import { fetchTopicTeam, findAliasedTopicSlug } from "@/lib/query/topic";
+import { can, isStaff } from "@/lib/permissions";
+import Link from "next/link";
 
 /**
  * Page props
  * slug comes from URL: /topic/[slug]
+ * sort and cursor come from query string: /topic/[slug]?sort=top&cursor=abc
  */
 type TopicShowPageProps = {
   params: Promise<{ slug: string }>;
+  searchParams: Promise<{ sort?: string; cursor?: string }>;
 };
 
+/**
+ * Sort tabs shown above the post list
+ */
+const SORT_OPTIONS: { value: PostSort; label: string }[] = [
+  { value: "new", label: "New" },
+  { value: "top", label: "Top" },
+];
+
 /**
  * TopicShowPage (Server Component)
  *
  * Responsibility:
- * - Show topic details
- * - Show all posts under that topic
+ * - Show topic details (icon, display name, color, rules, links)
+ * - Show all posts under that topic (pinned posts first)
  * - Allow creating new posts
+ * - Show who moderates the topic (and the management panel to them)
+ * - Redirect former names of renamed topics to the current one
  */
-const TopicShowPage = async ({ params }: TopicShowPageProps) => {
+const TopicShowPage = async ({ params, searchParams }: TopicShowPageProps) => {
   const session = await getServerSession(authOptions);
 
   if (!session || !session.user) {
@@ -33,11 +57,34 @@ const TopicShowPage = async ({ params }: TopicShowPageProps) => {
 
   const { slug } = await params;
 
+  const query = await searchParams;
+
+  // Anything other than "top" falls back to newest first
+  const sort: PostSort = query.sort === "top" ? "top" : "new";
+
+  // Cursor of the current page (missing on the first page)
+  const cursor = query.cursor || undefined;
+
   const topic = await prisma.topic.findUnique({
     where: { slug },
+    include: {
+      links: { orderBy: { position: "asc" } },
+    },
   });
 
   if (!topic) {
+    // Renamed topic - keep old links working (sort and page included)
+    const renamed = await findAliasedTopicSlug(slug);
+
+    if (renamed) {
+      const search = new URLSearchParams();
+      if (query.sort) search.set("sort", query.sort);
+      if (query.cursor) search.set("cursor", query.cursor);
+
+      const suffix = search.size > 0 ? `?${search}` : "";
+      permanentRedirect(`/topic/${renamed}${suffix}`);
+    }
+
     return (
       <div className="mx-auto max-w-3xl p-6">
         <div className="rounded-lg border border-red-200 bg-red-50 p-4">
@@ -47,16 +94,44 @@ const TopicShowPage = async ({ params }: TopicShowPageProps) => {
     );
   }
 
+  // One page of posts + cursor for the next one
+  const page = await fetchPostByTopicSlug(slug, { sort, cursor });
+
+  // Pinned posts sit above the first page (the feed itself leaves them out)
+  const pinned = cursor ? [] : await fetchPinnedPosts(slug);
+
+  // Owner + moderators (sidebar, permission check for the panel)
+  const team = await fetchTopicTeam(topic.id);
+  const canManage = team !== null && can(session.user, "manage", { topic: team });
+
+  // Renaming / editing details: owner and admins
+  // Deleting the topic itself: owner and staff (lib/permissions.ts)
+  const owner = { userId: topic.ownerId ?? undefined };
+  const canEdit = can(session.user, "edit", owner);
+  const canDelete = can(session.user, "delete", owner);
+
+  // Removing moderators: owner and site staff (app/action/manage-topic.ts)
+  const canRemoveModerators =
+    isStaff(session.user) || topic.ownerId === session.user.id;
+
   return (
     <div className="mx-auto max-w-6xl space-y-8">
       {/* ================= TOPIC HEADER ================= */}
-      <header className="rounded-lg border bg-white p-6">
-        <span className="inline-block rounded-full bg-gray-100 px-3 py-1 text-sm font-medium text-gray-700">
+      <header
+        className={`rounded-lg border border-l-4 ${TOPIC_COLORS[topic.color].border} bg-white p-6`}
+      >
+        <span
+          className={`inline-block rounded-full px-3 py-1 text-sm font-medium ${TOPIC_COLORS[topic.color].badge}`}
+        >
           #{slug}
         </span>
 
-        <h1 className="mt-3 text-3xl font-bold text-gray-900 capitalize">
-          {slug}
+        {/* Topics without a display name show their slug */}
+        <h1
+          className={`mt-3 flex items-center gap-2 text-3xl font-bold text-gray-900 ${topic.name ? "" : "capitalize"}`}
+        >
+          {topic.icon && <span aria-hidden>{topic.icon}</span>}
+          {topicDisplayName(topic)}
         </h1>
 
         <p className="mt-2 max-w-3xl text-gray-600">
@@ -68,7 +143,31 @@ const TopicShowPage = async ({ params }: TopicShowPageProps) => {
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-4">
         {/* POSTS LIST */}
         <section className="lg:col-span-3 space-y-4">
-          <PostList fetchData={() => fetchPostByTopicSlug(slug)} />
+          {/* Sort tabs */}
+          <div className="flex gap-4 border-b text-sm font-medium text-gray-600">
+            {SORT_OPTIONS.map((option) => (
+              <Link
+                key={option.value}
+                href={`/topic/${slug}?sort=${option.value}`}
+                className={
+                  sort === option.value
+                    ? "border-b-2 border-black pb-2 text-black"
+                    : "pb-2 hover:text-gray-900"
+                }
+              >
+                {option.label}
+              </Link>
+            ))}
+          </div>
+
+          <PostList fetchData={async () => [...pinned, ...page.items]} />
+
+          <PostPagination
+            basePath={`/topic/${slug}`}
+            params={{ sort: sort === "new" ? undefined : sort }}
+            cursor={cursor}
+            nextCursor={page.nextCursor}
+          />
         </section>
 
         {/* SIDEBAR */}
@@ -76,6 +175,33 @@ const TopicShowPage = async ({ params }: TopicShowPageProps) => {
           <div className="rounded-lg border bg-white p-4">
             <PostCreateForm slug={slug} />
           </div>
+
+          <TopicAbout rules={topic.rules} links={topic.links} />
+
+          {team && <TopicTeam team={team} />}
+
+          {team && canManage && (
+            <div className="rounded-lg border bg-white p-4">
+              <TopicManagePanel
+                slug={slug}
+                description={topic.description}
+                moderators={team.moderators.map((moderator) => ({
+                  userId: moderator.userId,
+                  name: moderator.user.name,
+                }))}
+                details={{
+                  name: topic.name,
+                  icon: topic.icon,
+                  color: topic.color,
+                  rules: topic.rules,
+                  links: topic.links,
+                }}
+                canEdit={canEdit}
+                canDelete={canDelete}
+                canRemoveModerators={canRemoveModerators}
+              />
+            </div>
+          )}
         </aside>
       </div>
     </div>
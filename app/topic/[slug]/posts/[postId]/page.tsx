@@ -2,11 +2,14 @@
 
 import React, { Suspense } from "react";
 import Link from "next/link";
-import { redirect } from "next/navigation";
+import { permanentRedirect, redirect } from "next/navigation";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 
+import { prisma } from "@/lib";
 import PostShow from "@/components/posts/post-show";
+import PostLockBanner from "@/components/posts/post-lock-banner";
+import { topicDisplayName } from "@/components/topic/topic-style";
 import CommentCreateForm from "@/components/comments/comment-create-form";
 import CommentList from "@/components/comments/comment-list";
 
@@ -31,6 +34,9 @@ type PostShowPageProps = {
  * - Auth check
  * - Show single post
  * - Show comments & reply system
+ * - Show a banner instead of the comment form on locked / archived posts
+ * - Redirect to the post's current URL when the topic slug is outdated
+ *   (the topic was renamed)
  *
  * URL:
  * /topic/[slug]/posts/[postId]
@@ -45,6 +51,22 @@ const PostShowPage = async ({ params }: PostShowPageProps) => {
 
   const { slug, postId } = await params;
 
+  // Locked / archived posts take no new comments
+  const status = await prisma.post.findUnique({
+    where: { id: postId },
+    select: {
+      lockedAt: true,
+      archivedAt: true,
+      topic: { select: { slug: true, name: true } },
+    },
+  });
+
+  // Old link - send it to the post's current URL
+  if (status && status.topic.slug !== slug) {
+    permanentRedirect(`/topic/${status.topic.slug}/posts/${postId}`);
+  }
+  const closed = !!(status?.lockedAt || status?.archivedAt);
+
   return (
     <div className="mx-auto max-w-4xl space-y-8">
       {/* Back navigation */}
@@ -55,7 +77,7 @@ const PostShowPage = async ({ params }: PostShowPageProps) => {
             className="pl-0 text-gray-600 hover:text-gray-900"
           >
             <ChevronLeft className="mr-1 h-4 w-4" />
-            Back to {slug}
+            Back to {status ? topicDisplayName(status.topic) : slug}
           </Button>
         </Link>
       </div>
@@ -76,14 +98,21 @@ const PostShowPage = async ({ params }: PostShowPageProps) => {
         <PostShow postId={postId} />
       </Suspense>
 
-      {/* Add comment */}
-      <section className="rounded-lg border bg-white p-6">
-        <h2 className="mb-4 text-lg font-semibold text-gray-900">
-          Join the discussion
-        </h2>
+      {/* Add comment (or why you can't) */}
+      {closed && status ? (
+        <PostLockBanner
+          lockedAt={status.lockedAt}
+          archivedAt={status.archivedAt}
+        />
+      ) : (
+        <section className="rounded-lg border bg-white p-6">
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">
+            Join the discussion
+          </h2>
 
-        <CommentCreateForm postId={postId} startOpen />
-      </section>
+          <CommentCreateForm postId={postId} startOpen />
+        </section>
+      )}
 
       {/* Comments list */}
       <section className="space-y-4">
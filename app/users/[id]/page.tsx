@@ -0,0 +1,190 @@
+// app/users/[id]/page.tsx
+
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+
+import PostList from "@/components/posts/post-list";
+import PostPagination from "@/components/posts/post-pagination";
+import UserCommentItem from "@/components/users/user-comment-item";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { fetchUserProfile, resolveMentionLinks } from "@/lib/query/user";
+import { fetchPostsByUserId } from "@/lib/query/post";
+import { fetchCommentsByUserId } from "@/lib/query/comment";
+
+/**
+ * Page props
+ * id comes from URL: /users/[id]
+ * tab and cursor come from query string: /users/[id]?tab=comments&cursor=abc
+ */
+type UserProfilePageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ tab?: string; cursor?: string }>;
+};
+
+/**
+ * Activity tabs
+ */
+type ProfileTab = "posts" | "comments";
+
+/**
+ * UserProfilePage (Server Component)
+ *
+ * Responsibility:
+ * - Public profile of a user (author names and @mentions link here)
+ * - Avatar, name, join date, post and comment counts
+ * - The user's posts or comments, newest first, one page at a time
+ *
+ * Shows only what every signed-in user may see - email, bans, warnings
+ * and reports stay on the user's own /profile page.
+ */
+const UserProfilePage = async ({
+  params,
+  searchParams,
+}: UserProfilePageProps) => {
+  const session = await getServerSession(authOptions);
+
+  if (!session || !session.user) {
+    redirect("/");
+  }
+
+  const { id } = await params;
+  const query = await searchParams;
+
+  // Anything other than "comments" shows the posts
+  const tab: ProfileTab = query.tab === "comments" ? "comments" : "posts";
+
+  // Cursor of the current page (missing on the first page)
+  const cursor = query.cursor || undefined;
+
+  const user = await fetchUserProfile(id);
+
+  if (!user) {
+    return (
+      <div className="mx-auto max-w-3xl p-6">
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+          <p className="font-medium text-red-600">User not found</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Viewing your own profile - link to the private settings
+  const isSelf = session.user.id === user.id;
+
+  const tabs: { value: ProfileTab; label: string; count: number }[] = [
+    { value: "posts", label: "Posts", count: user._count.posts },
+    { value: "comments", label: "Comments", count: user._count.comments },
+  ];
+
+  // One page of the selected tab
+  const posts = tab === "posts" ? await fetchPostsByUserId(user.id, { cursor }) : null;
+  const comments = tab === "comments" ? await fetchCommentsByUserId(user.id, { cursor }) : null;
+
+  // @mentions of the whole page of comments, looked up at once
+  const mentions = await resolveMentionLinks(
+    comments?.items.map((comment) => comment.content) ?? []
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto px-6 py-8 space-y-8">
+      {/* ================= PROFILE HEADER ================= */}
+      <div className="flex items-center gap-6 border rounded-lg bg-white p-6">
+        <Avatar className="h-16 w-16">
+          <AvatarImage src={user.image || ""} />
+          <AvatarFallback>
+            {user.name?.[0]?.toUpperCase() || "U"}
+          </AvatarFallback>
+        </Avatar>
+
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold text-gray-900">
+            {user.name || "Anonymous"}
+          </h1>
+          <p className="text-sm text-gray-500">
+            Joined{" "}
+            {new Date(user.createdAt).toLocaleDateString("en-US", {
+              year: "numeric",
+              month: "long",
+            })}{" "}
+            · {user._count.posts} {user._count.posts === 1 ? "post" : "posts"}{" "}
+            · {user._count.comments}{" "}
+            {user._count.comments === 1 ? "comment" : "comments"}
+          </p>
+        </div>
+
+        {isSelf && (
+          <Link
+            href="/profile"
+            className="text-sm text-gray-600 hover:text-gray-900 hover:underline"
+          >
+            Your settings
+          </Link>
+        )}
+      </div>
+
+      {/* ================= TABS ================= */}
+      <div className="border-b flex gap-6 text-sm font-medium text-gray-600">
+        {tabs.map((option) => (
+          <Link
+            key={option.value}
+            href={
+              option.value === "posts"
+                ? `/users/${user.id}`
+                : `/users/${user.id}?tab=${option.value}`
+            }
+            className={
+              tab === option.value
+                ? "border-b-2 border-black pb-2 text-black"
+                : "pb-2 hover:text-gray-900"
+            }
+          >
+            {option.label} ({option.count})
+          </Link>
+        ))}
+      </div>
+
+      {/* ================= POSTS ================= */}
+      {posts && (
+        <div className="space-y-4">
+          <PostList fetchData={async () => posts.items} />
+          <PostPagination
+            basePath={`/users/${user.id}`}
+            cursor={cursor}
+            nextCursor={posts.nextCursor}
+          />
+        </div>
+      )}
+
+      {/* ================= COMMENTS ================= */}
+      {comments && (
+        <div className="space-y-4">
+          {comments.items.length === 0 ? (
+            <div className="rounded border bg-white p-8 text-center text-gray-500">
+              No comments yet
+            </div>
+          ) : (
+            <ul className="space-y-3">
+              {comments.items.map((comment) => (
+                <UserCommentItem
+                  key={comment.id}
+                  comment={comment}
+                  mentions={mentions}
+                />
+              ))}
+            </ul>
+          )}
+          <PostPagination
+            basePath={`/users/${user.id}`}
+            params={{ tab: "comments" }}
+            cursor={cursor}
+            nextCursor={comments.nextCursor}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserProfilePage;
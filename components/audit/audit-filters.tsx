@@ -0,0 +1,124 @@
+// components/audit/audit-filters.tsx
+//
+// Filter form of the audit log viewer.
+// A plain GET form - the filters end up in the URL (?action=...&actor=...),
+// so a filtered view can be bookmarked and shared.
+
+// UI components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// Known actions / target types + parsed filter type
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from "@/lib/audit";
+import type { AuditFilters as AuditFiltersValue } from "@/lib/query/audit";
+
+/**
+ * Props
+ *
+ * filters → current filters (prefill the fields)
+ */
+type AuditFiltersProps = {
+  filters: AuditFiltersValue;
+};
+
+/**
+ * AuditFilters (Server Component)
+ *
+ * Clearing a field removes that filter.
+ */
+const AuditFilters = ({ filters }: AuditFiltersProps) => {
+  return (
+    <form
+      method="get"
+      action="/admin/audit"
+      className="grid gap-3 rounded border bg-white p-4 sm:grid-cols-3"
+    >
+      {/* Action */}
+      <div className="space-y-1">
+        <Label htmlFor="audit-action">Action</Label>
+        <select
+          id="audit-action"
+          name="action"
+          defaultValue={filters.action || ""}
+          className="h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs"
+        >
+          <option value="">All actions</option>
+          {Object.entries(AUDIT_ACTIONS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Actor name */}
+      <div className="space-y-1">
+        <Label htmlFor="audit-actor">Moderator</Label>
+        <Input
+          id="audit-actor"
+          name="actor"
+          defaultValue={filters.actor || ""}
+          placeholder="Name"
+        />
+      </div>
+
+      {/* Target */}
+      <div className="space-y-1">
+        <Label htmlFor="audit-target-type">Target</Label>
+        <select
+          id="audit-target-type"
+          name="targetType"
+          defaultValue={filters.targetType || ""}
+          className="h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs"
+        >
+          <option value="">Anything</option>
+          {AUDIT_TARGET_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="audit-target-id">Target id</Label>
+        <Input
+          id="audit-target-id"
+          name="targetId"
+          defaultValue={filters.targetId || ""}
+          placeholder="Post, comment, topic or user id"
+        />
+      </div>
+
+      {/* Date range */}
+      <div className="space-y-1">
+        <Label htmlFor="audit-after">From</Label>
+        <Input
+          id="audit-after"
+          name="after"
+          type="date"
+          defaultValue={filters.after || ""}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="audit-before">Before</Label>
+        <Input
+          id="audit-before"
+          name="before"
+          type="date"
+          defaultValue={filters.before || ""}
+        />
+      </div>
+
+      <div className="flex items-end justify-end sm:col-span-3">
+        <Button type="submit" size="sm">
+          Apply filters
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default AuditFilters;
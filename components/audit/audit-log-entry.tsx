@@ -0,0 +1,83 @@
+// components/audit/audit-log-entry.tsx
+//
+// One row of the audit log: who did what to which target, why,
+// and the before/after snapshots.
+
+// Audit entry type (generated by Prisma) + action labels
+import type { AuditLog } from "@prisma/client";
+import { AUDIT_ACTIONS, isAuditAction } from "@/lib/audit";
+import UserLink from "@/components/users/user-link";
+
+/**
+ * Snapshot
+ *
+ * Shows a before/after snapshot as formatted JSON.
+ */
+const Snapshot = ({ label, value }: { label: string; value: unknown }) => (
+  <div className="min-w-0 flex-1">
+    <p className="text-xs font-medium text-gray-500">{label}</p>
+    <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap break-words rounded bg-gray-50 p-2 text-xs text-gray-700">
+      {JSON.stringify(value, null, 2)}
+    </pre>
+  </div>
+);
+
+/**
+ * AuditLogEntry (Server Component)
+ *
+ * @param entry - Audit log row
+ */
+const AuditLogEntry = ({ entry }: { entry: AuditLog }) => {
+  // Old entries may use actions that were renamed since - show them raw
+  const label = isAuditAction(entry.action)
+    ? AUDIT_ACTIONS[entry.action]
+    : entry.action;
+
+  return (
+    <li className="space-y-2 rounded border bg-white p-4 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="rounded bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-700">
+          {label}
+        </span>
+        <UserLink
+          user={{ id: entry.actorId, name: entry.actorName }}
+          fallback="Unknown user"
+          className="font-medium text-gray-900"
+        />
+        <span className="text-gray-500">
+          on {entry.targetType}{" "}
+          <code className="text-xs text-gray-600">{entry.targetId}</code>
+        </span>
+        <span className="ml-auto text-xs text-gray-400">
+          {new Date(entry.createdAt).toLocaleString("en-US", {
+            year: "numeric",
+            month: "short",
+            day: "numeric",
+            hour: "numeric",
+            minute: "2-digit",
+          })}
+        </span>
+      </div>
+
+      {entry.reason && (
+        <p className="text-gray-600">
+          <span className="font-medium">Reason:</span> {entry.reason}
+        </p>
+      )}
+
+      {/* Snapshots (only the ones that apply) */}
+      {(entry.before !== null || entry.after !== null) && (
+        <div className="flex flex-col gap-3 sm:flex-row">
+          {entry.before !== null && (
+            <Snapshot label="Before" value={entry.before} />
+          )}
+          {entry.after !== null && (
+            <Snapshot label="After" value={entry.after} />
+          )}
+        </div>
+      )}
+    </li>
+  );
+};
+
+export default AuditLogEntry;
@@ -18,6 +18,8 @@ import Link from "next/link";
  * Dropdown options:
  * - Home
  * - Profile
+ * - Moderation queue (admins and moderators)
+ * - Audit log (admins)
  * - Sign out
  */
 const AuthHeader = () => {
@@ -80,6 +82,37 @@ const AuthHeader = () => {
             Profile
           </Link>
 
+          {/* Public profile (what others see) */}
+          <Link
+            href={`/users/${session.user.id}`}
+            onClick={() => setOpen(false)}
+            className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+          >
+            Public profile
+          </Link>
+
+          {/* Moderation queue (site staff) */}
+          {(session.user.role === "ADMIN" || session.user.role === "MODERATOR") && (
+            <Link
+              href="/mod/queue"
+              onClick={() => setOpen(false)}
+              className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              Moderation queue
+            </Link>
+          )}
+
+          {/* Audit log (admins) */}
+          {session.user.role === "ADMIN" && (
+            <Link
+              href="/admin/audit"
+              onClick={() => setOpen(false)}
+              className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              Audit log
+            </Link>
+          )}
+
           {/* Divider */}
           <div className="h-px bg-gray-200" />
 
@@ -0,0 +1,112 @@
+// components/bans/ban-form.tsx
+//
+// Form on the bans page to ban or suspend a user,
+// site-wide or in one topic.
+
+"use client";
+
+// React 19+ hook for handling server action form state
+import { useActionState } from "react";
+
+// UI components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+// Server action (and its form state type)
+import { banUser, type BanFormState } from "@/app/action/ban";
+
+/**
+ * Props
+ *
+ * topics         → topics the moderator may ban users from
+ * canBanSiteWide → offer the "Site-wide" option (admins and site moderators)
+ */
+type BanFormProps = {
+  topics: { slug: string }[];
+  canBanSiteWide: boolean;
+};
+
+/**
+ * BanForm (Client Component)
+ *
+ * Leave "Until" empty for a permanent ban.
+ */
+const BanForm = ({ topics, canBanSiteWide }: BanFormProps) => {
+  const [formState, action, isPending] = useActionState<BanFormState, FormData>(
+    banUser,
+    { errors: {} }
+  );
+
+  return (
+    <form
+      action={action}
+      className="grid gap-3 rounded border bg-white p-4 sm:grid-cols-3"
+    >
+      {/* User */}
+      <div className="space-y-1">
+        <Label htmlFor="ban-user">User</Label>
+        <Input id="ban-user" name="user" placeholder="Name or email" />
+        {formState.errors.user && (
+          <p className="text-sm text-red-600">{formState.errors.user}</p>
+        )}
+      </div>
+
+      {/* Scope */}
+      <div className="space-y-1">
+        <Label htmlFor="ban-topic">Where</Label>
+        <select
+          id="ban-topic"
+          name="topic"
+          className="h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs"
+        >
+          {canBanSiteWide && <option value="">Site-wide</option>}
+          {topics.map((topic) => (
+            <option key={topic.slug} value={topic.slug}>
+              #{topic.slug}
+            </option>
+          ))}
+        </select>
+        {formState.errors.topic && (
+          <p className="text-sm text-red-600">{formState.errors.topic}</p>
+        )}
+      </div>
+
+      {/* Duration */}
+      <div className="space-y-1">
+        <Label htmlFor="ban-until">Until (empty = permanent)</Label>
+        <Input id="ban-until" name="until" type="date" />
+        {formState.errors.until && (
+          <p className="text-sm text-red-600">{formState.errors.until}</p>
+        )}
+      </div>
+
+      {/* Reason */}
+      <div className="space-y-1 sm:col-span-3">
+        <Label htmlFor="ban-reason">Reason (shown to the user)</Label>
+        <Textarea id="ban-reason" name="reason" rows={2} />
+        {formState.errors.reason && (
+          <p className="text-sm text-red-600">{formState.errors.reason}</p>
+        )}
+      </div>
+
+      {formState.errors.formError && (
+        <div className="rounded border border-red-300 bg-red-50 p-2 text-sm text-red-700 sm:col-span-3">
+          {formState.errors.formError}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3 sm:col-span-3">
+        {formState.success && (
+          <span className="text-sm text-green-600">Saved</span>
+        )}
+        <Button type="submit" size="sm" variant="destructive" disabled={isPending}>
+          Ban user
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default BanForm;
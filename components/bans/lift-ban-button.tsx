@@ -0,0 +1,42 @@
+// components/bans/lift-ban-button.tsx
+//
+// "Lift" button next to an active ban on the bans page.
+
+"use client";
+
+// React hook
+// useTransition -> pending state while the ban is lifted
+import { useTransition } from "react";
+
+// UI
+import { Button } from "@/components/ui/button";
+
+// Server action
+import { liftBan } from "@/app/action/ban";
+
+/**
+ * LiftBanButton (Client Component)
+ *
+ * The list refreshes through revalidatePath once the ban is lifted.
+ */
+const LiftBanButton = ({ banId }: { banId: string }) => {
+  const [isPending, startTransition] = useTransition();
+
+  const handleLift = () => {
+    startTransition(async () => {
+      try {
+        await liftBan(banId);
+      } catch {
+        // Ban stays in the list
+      }
+    });
+  };
+
+  return (
+    <Button size="sm" variant="outline" onClick={handleLift} disabled={isPending}>
+      {isPending ? "Lifting..." : "Lift"}
+    </Button>
+  );
+};
+
+export default LiftBanButton;
@@ -12,7 +12,7 @@ import { useActionState } from "react";
 
 // UI components
 import { Button } from "../ui/button";
-import { Textarea } from "../ui/textarea";
+import MarkdownEditor from "../markdown/markdown-editor";
 
 // Server Action to create a comment
 import { createComment } from "@/app/action/create-comment";
@@ -132,11 +132,12 @@ const CommentCreateForm: React.FC<CommentCreateFormProps> = ({
       {/* Comment form */}
       {open && (
         <form action={formAction} className="space-y-3">
-          {/* Comment textarea */}
-          <Textarea
+          {/* Comment editor (Write / Preview) */}
+          <MarkdownEditor
             name="content"
             placeholder="Write your comment..."
             className="resize-none bg-gray-50 focus-visible:ring-0"
+            mentions
           />
 
           {/* Field-level validation error */}
@@ -0,0 +1,119 @@
+// components/comments/comment-delete-button.tsx
+//
+// Client-side delete button for comments.
+// Visible to the comment owner and to moderators.
+// Shows a confirmation dialog before deleting the comment.
+
+"use client";
+
+import { useState } from "react";
+
+// UI components
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+// Server action
+import { deleteComment } from "@/app/action/delete-comment";
+
+/**
+ * Props
+ *
+ * commentId → comment to delete
+ */
+type CommentDeleteButtonProps = {
+  commentId: string;
+};
+
+/**
+ * CommentDeleteButton (Client Component)
+ *
+ * Responsibility:
+ * - Ask for confirmation before deletion
+ * - Call server action to delete comment
+ * - Page refresh handled on server (revalidatePath)
+ *
+ * Why client component?
+ * - Uses modal interaction
+ * - Handles loading state
+ */
+const CommentDeleteButton = ({ commentId }: CommentDeleteButtonProps) => {
+  // Controls dialog open/close
+  const [open, setOpen] = useState(false);
+
+  // Prevents double clicks while deleting
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  /**
+   * Trigger deletion
+   *
+   * Actual deletion happens on the server
+   */
+  const handleDelete = async () => {
+    setIsDeleting(true);
+
+    try {
+      await deleteComment(commentId);
+    } catch {
+      // Comment stays as it was
+    }
+
+    setIsDeleting(false);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      {/* Delete trigger */}
+      <DialogTrigger asChild>
+        <Button
+          size="sm"
+          variant="link"
+          className="px-0 text-sm text-red-600"
+        >
+          Delete
+        </Button>
+      </DialogTrigger>
+
+      {/* Confirmation modal */}
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Delete comment</DialogTitle>
+          <DialogDescription>
+            The comment will be replaced by &quot;[deleted]&quot;. Replies to it
+            stay visible.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogFooter className="flex gap-2">
+          {/* Cancel */}
+          <Button
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={isDeleting}
+          >
+            Cancel
+          </Button>
+
+          {/* Confirm delete */}
+          <Button
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={isDeleting}
+          >
+            {isDeleting ? "Deleting..." : "Delete"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CommentDeleteButton;
@@ -0,0 +1,159 @@
+// components/comments/comment-edit-form.tsx
+//
+// Inline edit mode for a comment.
+// Shown only to the comment owner; swaps the comment body for a textarea.
+
+"use client";
+
+// React hooks
+// useState       -> toggles between read mode and edit mode
+// useActionState -> connects the form to the editComment Server Action
+import React, { useState, useActionState } from "react";
+
+// UI components
+import { Button } from "../ui/button";
+import MarkdownEditor from "../markdown/markdown-editor";
+
+// Server Action (and its form state type) to edit a comment
+import {
+  editComment,
+  type EditCommentFormState,
+} from "@/app/action/edit-comment";
+
+/**
+ * Props for CommentEditForm
+ *
+ * commentId:
+ * - ID of the comment being edited
+ *
+ * content:
+ * - Current comment text (prefills the textarea)
+ *
+ * children:
+ * - The rendered comment body, shown while not editing
+ *
+ * actions:
+ * - Extra buttons shown next to "Edit" (e.g. delete)
+ */
+type CommentEditFormProps = {
+  commentId: string;
+  content: string;
+  children: React.ReactNode;
+  actions?: React.ReactNode;
+};
+
+/**
+ * CommentEditForm (Client Component)
+ *
+ * Responsibility:
+ * - Show the comment body with an "Edit" button
+ * - Switch to an inline form in place of the body
+ * - Close again once the server saved the edit
+ *
+ * Why Client Component?
+ * - Uses state
+ * - Handles form interaction
+ */
+const CommentEditForm: React.FC<CommentEditFormProps> = ({
+  commentId,
+  content,
+  children,
+  actions,
+}) => {
+  /**
+   * Controls whether the inline form is visible
+   */
+  const [editing, setEditing] = useState(false);
+
+  /**
+   * Wrapper for server action
+   *
+   * editComment expects:
+   * (commentId, prevState, formData)
+   *
+   * It also leaves edit mode as soon as the save succeeded,
+   * the page itself is refreshed by revalidatePath on the server
+   */
+  const editCommentAction = async (
+    prevState: EditCommentFormState,
+    formData: FormData
+  ) => {
+    const state = await editComment(commentId, prevState, formData);
+
+    if (state.success) {
+      setEditing(false);
+    }
+
+    return state;
+  };
+
+  const [formState, formAction] = useActionState(editCommentAction, {
+    errors: {},
+  });
+
+  /**
+   * Read mode
+   */
+  if (!editing) {
+    return (
+      <div>
+        {children}
+
+        <div className="flex gap-4">
+          <Button
+            size="sm"
+            variant="link"
+            onClick={() => setEditing(true)}
+            className="px-0 text-sm text-gray-600"
+          >
+            Edit
+          </Button>
+          {actions}
+        </div>
+      </div>
+    );
+  }
+
+  /**
+   * Edit mode
+   */
+  return (
+    <form action={formAction} className="mt-1 space-y-3">
+      {/* Comment editor (prefilled with current content) */}
+      <MarkdownEditor
+        name="content"
+        defaultValue={content}
+        className="resize-none bg-gray-50 focus-visible:ring-0"
+      />
+
+      {/* Field-level validation error */}
+      {formState.errors.content && (
+        <p className="text-sm text-red-600">{formState.errors.content}</p>
+      )}
+
+      {/* Form-level error */}
+      {formState.errors.formError && (
+        <div className="rounded border border-red-300 bg-red-50 p-2 text-sm text-red-700">
+          {formState.errors.formError}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex gap-2">
+        <Button size="sm" variant="secondary" type="submit">
+          Save
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          type="button"
+          onClick={() => setEditing(false)}
+        >
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default CommentEditForm;
@@ -4,8 +4,22 @@ import React from "react";
 // Single comment renderer (handles replies recursively) 💬
 import CommentShow from "./comment-show";
 
-// DB query to fetch all comments of a post 📦
-import { fetchCommentByPostId } from "@/lib/query/comment";
+// Live updates (new replies, edits, deletions) 📡
+import CommentLiveUpdates from "./comment-live-updates";
+
+// DB query to fetch all comments of a post as a tree 📦
+import { fetchCommentTreeByPostId } from "@/lib/query/comment";
+
+// Session (who is viewing) 🔐
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+
+// Viewer's votes for every comment of the thread 👍
+import { fetchViewerVotes } from "@/lib/query/vote";
+
+// Topic owner + moderators (they can remove comments too) 🛡️
+import { prisma } from "@/lib";
+import { topicRolesSelect } from "@/lib/query/topic";
 
 /**
  * Props for CommentList
@@ -20,9 +34,10 @@ type CommentListProps = {
  * CommentList (Server Component)
  *
  * Responsibility:
- * - Fetch all comments of a post
- * - Separate top-level comments
+ * - Fetch all comments of a post (one query, already a tree)
+ * - Read the session once for the whole thread
  * - Render them in threaded (tree) form
+ * - Follow changes by others live (see CommentLiveUpdates)
  *
  * Why Server Component? 🧠
  * - Direct DB access
@@ -30,33 +45,49 @@ type CommentListProps = {
  * - No client JS needed
  */
 const CommentList: React.FC<CommentListProps> = async ({ postId }) => {
-  // 📥 Fetch ALL comments (parents + replies)
-  const comments = await fetchCommentByPostId(postId);
+  // 📥 Fetch ALL comments (parents + replies) as a tree 🌳
+  // roots → top-level comments, replies are nested in `children`
+  // mentions → users @mentioned in the thread (resolved with one query)
+  const { roots, count, ids, mentions } = await fetchCommentTreeByPostId(postId);
 
-  /**
-   * 🌳 Top-level comments
-   *
-   * parentId === null → this is a root comment
-   * Replies will be handled inside CommentShow
-   */
-  const topLevelComments = comments.filter(
-    (comment) => comment.parentId === null
-  );
+  // 🔐 Viewer info, passed down so CommentShow doesn't look it up per comment
+  const session = await getServerSession(authOptions);
+  const viewer = session?.user;
+
+  // 🛡️ Who runs the topic of this post
+  const post = await prisma.post.findUnique({
+    where: { id: postId },
+    select: {
+      topic: { select: topicRolesSelect },
+      lockedAt: true,    // 🔒 Locked / archived threads get no reply forms
+      archivedAt: true,
+    },
+  });
+
+  // 👍 One query for the viewer's votes on the whole thread
+  const viewerVotes = await fetchViewerVotes(viewer?.id, { commentIds: ids });
 
   return (
     <section className="mt-8">
       {/* ================= HEADER ================= */}
       <h2 className="mb-4 text-lg font-bold text-gray-900">
-        💬 All {comments.length} comments
+        💬 All {count} comments
       </h2>
 
+      {/* ================= LIVE UPDATES ================= */}
+      <CommentLiveUpdates postId={postId} viewerId={viewer?.id} />
+
       {/* ================= COMMENTS ================= */}
       <div className="space-y-4">
-        {topLevelComments.map((comment) => (
+        {roots.map((comment) => (
           <CommentShow
             key={comment.id} // 🔑 React list key
-            postId={comment.postId}
-            commentId={comment.id}
+            comment={comment}
+            viewer={viewer}
+            topic={post?.topic}
+            locked={!!(post?.lockedAt || post?.archivedAt)}
+            viewerVotes={viewerVotes}
+            mentions={mentions}
           />
         ))}
       </div>
@@ -0,0 +1,120 @@
+"use client";
+
+// React hooks
+// useEffect     -> opens the event stream / scrolls to the first new reply
+// useRef        -> which comment to scroll to once the refresh is done
+// useState      -> new replies that aren't shown yet
+// useTransition -> pending state of the refresh
+import React, { useEffect, useRef, useState, useTransition } from "react";
+
+// Router - re-renders the (server) comment tree in place
+import { useRouter } from "next/navigation";
+
+import { ArrowUp } from "lucide-react";
+
+// Event payload sent by the stream
+import type { CommentEvent } from "@/lib/comment-events";
+
+/**
+ * Props
+ *
+ * postId   → post whose comments to follow
+ * viewerId → the viewer (their own changes show up by themselves)
+ */
+type CommentLiveUpdatesProps = {
+  postId: string;
+  viewerId?: string;
+};
+
+/**
+ * CommentLiveUpdates (Client Component)
+ *
+ * Listens to /api/posts/[postId]/comments/stream.
+ * - Edits and deletions by others → the comments refresh right away
+ * - New comments by others        → "N new replies" button; clicking it
+ *   refreshes the comments and scrolls to the first new one
+ *   (so the thread doesn't jump while someone is reading)
+ *
+ * Refreshing merges the new server-rendered tree into the page,
+ * so open reply / edit forms keep what was typed.
+ */
+const CommentLiveUpdates = ({ postId, viewerId }: CommentLiveUpdatesProps) => {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  // New comments not rendered yet (in order of arrival)
+  const [newIds, setNewIds] = useState<string[]>([]);
+
+  // First new reply, scrolled to after the refresh
+  const scrollTargetRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const source = new EventSource(`/api/posts/${postId}/comments/stream`);
+
+    const refresh = () => {
+      // The refresh brings in the new replies too
+      setNewIds([]);
+      startTransition(() => router.refresh());
+    };
+
+    source.addEventListener("comment", (message) => {
+      const event = JSON.parse(message.data) as CommentEvent;
+
+      // Own changes are on the page already (revalidatePath)
+      if (event.actorId === viewerId) {
+        return;
+      }
+
+      if (event.type === "created") {
+        setNewIds((ids) =>
+          ids.includes(event.commentId) ? ids : [...ids, event.commentId]
+        );
+      } else if (event.type === "deleted") {
+        setNewIds((ids) => ids.filter((id) => id !== event.commentId));
+        refresh();
+      } else {
+        refresh();
+      }
+    });
+
+    return () => source.close();
+  }, [postId, viewerId, router]);
+
+  // Refresh done - bring the first new reply into view
+  useEffect(() => {
+    if (isPending || !scrollTargetRef.current) {
+      return;
+    }
+
+    document
+      .getElementById(`comment-${scrollTargetRef.current}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    scrollTargetRef.current = null;
+  }, [isPending]);
+
+  const showNewReplies = () => {
+    scrollTargetRef.current = newIds[0];
+    setNewIds([]);
+    startTransition(() => router.refresh());
+  };
+
+  if (newIds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="sticky top-16 z-10 flex justify-center">
+      <button
+        type="button"
+        onClick={showNewReplies}
+        disabled={isPending}
+        className="flex items-center gap-1 rounded-full bg-blue-600 px-4 py-1.5 text-sm font-medium text-white shadow-md hover:bg-blue-700 disabled:opacity-60"
+      >
+        <ArrowUp className="h-4 w-4" />
+        {newIds.length} new {newIds.length === 1 ? "reply" : "replies"}
+      </button>
+    </div>
+  );
+};
+
+export default CommentLiveUpdates;
@@ -1,64 +1,191 @@
-import { fetchCommentByPostId } from "@/lib/query/comment";
+import type { CommentNode } from "@/lib/query/comment";
+import type { ViewerVotes } from "@/lib/query/vote";
+import type { MentionLinks } from "@/lib/query/user";
+import { can, type Actor, type TopicRoles } from "@/lib/permissions";
+import VoteControls from "../votes/vote-controls";
 import { Avatar, AvatarFallback, AvatarImage } from "../ui/avatar";
 import CommentCreateForm from "./comment-create-form";
+import CommentEditForm from "./comment-edit-form";
+import CommentDeleteButton from "./comment-delete-button";
+import ReportButton from "../reports/report-button";
+import MarkdownContent from "../markdown/markdown-content";
+import UserLink from "../users/user-link";
 
 type CommentShowProps = {
-  postId: string;
-  commentId: string;
+  comment: CommentNode;
+  viewer?: Actor;
+  topic?: TopicRoles;
+  locked?: boolean;
+  viewerVotes?: ViewerVotes;
+  mentions?: MentionLinks;
   depth?: number;
 };
 
-const CommentShow = async ({
-  postId,
-  commentId,
+// Format a date with time (edit history needs more than the day)
+const formatDateTime = (date: Date) =>
+  new Date(date).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+// Renders one comment and, recursively, its replies from the pre-built tree
+const CommentShow = ({
+  comment,
+  viewer,
+  topic,
+  locked = false,
+  viewerVotes = {},
+  mentions,
   depth = 0,
 }: CommentShowProps) => {
-  const comments = await fetchCommentByPostId(postId);
-  const comment = comments.find((c) => c.id === commentId);
+  // Deleted comments are tombstones kept only for their replies
+  const isDeleted = comment.deletedAt !== null;
+
+  // Permission checks (see lib/permissions.ts)
+  const canEdit = can(viewer, "edit", comment);
+  const canDelete = can(viewer, "delete", { userId: comment.userId, topic });
 
-  if (!comment) return null;
+  // Logged-in users can report comments they didn't write
+  const canReport = !!viewer && viewer.id !== comment.userId;
 
-  const children = comments.filter((c) => c.parentId === commentId);
+  // Latest revision = time of the last edit
+  const lastEdit = comment.revisions[0];
+
+  // Rendered Markdown (sanitized on the server)
+  // Mentions come resolved for the whole thread - no query per comment
+  const body = (
+    <MarkdownContent
+      content={comment.content}
+      mentions={mentions}
+      className="mt-1"
+    />
+  );
 
   return (
     <div
+      id={`comment-${comment.id}`}
       className={`
         mt-4
         pl-4
         ${depth > 0 ? "border-l border-gray-200 ml-6" : ""}
       `}
     >
-      <div className="flex gap-3">
-        <Avatar className="h-8 w-8">
-          <AvatarImage src={comment.user.image || ""} />
-          <AvatarFallback>
-            {comment.user.name?.[0]?.toUpperCase() || "A"}
-          </AvatarFallback>
-        </Avatar>
-
-        <div className="flex-1">
-          <p className="text-sm font-medium text-gray-700">
-            {comment.user.name || "Anonymous"}
-          </p>
-
-          <p className="mt-1 text-gray-800 whitespace-pre-wrap">
-            {comment.content}
-          </p>
-
-          <div className="mt-2">
-            <CommentCreateForm
-              postId={postId}
-              parentId={comment.id}
-            />
+      {isDeleted ? (
+        /* Tombstone: no author, no content, no actions */
+        <div className="flex gap-3">
+          <Avatar className="h-8 w-8">
+            <AvatarFallback>?</AvatarFallback>
+          </Avatar>
+
+          <p className="mt-1 text-sm italic text-gray-400">[deleted]</p>
+        </div>
+      ) : (
+        <div className="flex gap-3">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={comment.user.image || ""} />
+            <AvatarFallback>
+              {comment.user.name?.[0]?.toUpperCase() || "A"}
+            </AvatarFallback>
+          </Avatar>
+
+          <div className="flex-1">
+            <p className="text-sm font-medium text-gray-700">
+              <UserLink
+                user={{ id: comment.userId, name: comment.user.name }}
+              />
+
+              {/* "edited" indicator */}
+              {lastEdit && (
+                <span
+                  className="ml-2 text-xs font-normal text-gray-400"
+                  title={`Edited ${formatDateTime(lastEdit.createdAt)}`}
+                >
+                  (edited)
+                </span>
+              )}
+            </p>
+
+            {canEdit ? (
+              <CommentEditForm
+                commentId={comment.id}
+                content={comment.content}
+                actions={
+                  canDelete && <CommentDeleteButton commentId={comment.id} />
+                }
+              >
+                {body}
+              </CommentEditForm>
+            ) : (
+              <>
+                {body}
+                <div className="flex gap-3">
+                  {canDelete && <CommentDeleteButton commentId={comment.id} />}
+                  {canReport && (
+                    <ReportButton
+                      target={{ commentId: comment.id }}
+                      label="comment"
+                    />
+                  )}
+                </div>
+              </>
+            )}
+
+            {/* Edit history (previous versions, newest first) */}
+            {lastEdit && (
+              <details className="mt-1 text-xs text-gray-500">
+                <summary className="cursor-pointer select-none">
+                  Edited {comment.revisions.length}{" "}
+                  {comment.revisions.length === 1 ? "time" : "times"}, last on{" "}
+                  {formatDateTime(lastEdit.createdAt)}
+                </summary>
+
+                <ol className="mt-2 space-y-2 border-l border-gray-200 pl-3">
+                  {comment.revisions.map((revision) => (
+                    <li key={revision.id}>
+                      <p className="text-gray-400">
+                        Before edit on {formatDateTime(revision.createdAt)}
+                      </p>
+                      <p className="whitespace-pre-wrap text-gray-600">
+                        {revision.content}
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              </details>
+            )}
+
+            <div className="mt-2">
+              <VoteControls
+                target={{ commentId: comment.id }}
+                score={comment.score}
+                viewerVote={viewerVotes[comment.id]}
+                orientation="horizontal"
+              />
+
+              {/* No replies on locked / archived posts */}
+              {!locked && (
+                <CommentCreateForm
+                  postId={comment.postId}
+                  parentId={comment.id}
+                />
+              )}
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
-      {children.map((child) => (
+      {comment.children.map((child) => (
         <CommentShow
           key={child.id}
-          postId={postId}
-          commentId={child.id}
+          comment={child}
+          viewer={viewer}
+          topic={topic}
+          locked={locked}
+          viewerVotes={viewerVotes}
+          mentions={mentions}
           depth={depth + 1}
         />
       ))}
@@ -11,6 +11,9 @@ import AuthHeader from "./auth-header";
 // SearchInput renders the global search bar
 import SearchInput from "./search-input";
 
+// NotificationBell links to the inbox (unread count)
+import NotificationBell from "./notifications/notification-bell";
+
 /**
  * Header (Server Component)
  *
@@ -18,6 +21,7 @@ import SearchInput from "./search-input";
  * - Global navigation bar
  * - Branding (Discuss)
  * - Search
+ * - Notifications (bell with unread count)
  * - Auth / Profile actions
  *
  * UX Rule:
@@ -56,8 +60,9 @@ const Header = () => {
           </Suspense>
         </div>
 
-        {/* ================= RIGHT: AUTH / PROFILE ================= */}
+        {/* ================= RIGHT: NOTIFICATIONS / AUTH / PROFILE ================= */}
         <div className="flex items-center gap-2">
+          <NotificationBell />
           <AuthHeader />
         </div>
 
@@ -0,0 +1,50 @@
+// components/markdown/markdown-content.tsx
+//
+// Renders user-written Markdown (posts, comments, search snippets).
+// The HTML comes from lib/markdown, which sanitizes it on the server.
+
+// Markdown → sanitized HTML
+import { renderMarkdown } from "@/lib/markdown";
+import type { MentionLinks } from "@/lib/query/user";
+
+// className helper
+import { cn } from "@/lib/utils";
+
+/**
+ * Props
+ *
+ * content    → Markdown source
+ * highlights → true for search snippets (marks matched words)
+ * mentions   → mentions resolved for a whole list (e.g. a comment thread)
+ * className  → extra classes for the wrapper
+ */
+type MarkdownContentProps = {
+  content: string;
+  highlights?: boolean;
+  mentions?: MentionLinks;
+  className?: string;
+};
+
+/**
+ * MarkdownContent (Server Component)
+ *
+ * Styling lives in globals.css (.markdown)
+ */
+const MarkdownContent = async ({
+  content,
+  highlights,
+  mentions,
+  className,
+}: MarkdownContentProps) => {
+  const html = await renderMarkdown(content, { highlights, mentions });
+
+  return (
+    <div
+      className={cn("markdown", className)}
+      // Safe: sanitized by renderMarkdown
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,230 @@
+// components/markdown/markdown-editor.tsx
+//
+// Markdown textarea with Write / Preview tabs and a formatting toolbar.
+// Used by the post and comment forms in place of a plain Textarea.
+// The textarea stays in the form while previewing, so submitting
+// from the Preview tab still sends the content.
+// With `mentions`, typing "@" suggests users to mention.
+
+"use client";
+
+// React hooks
+// useRef        -> direct access to the textarea (selection + value)
+// useState      -> current tab and rendered preview
+// useTransition -> pending state while the preview renders on the server
+import React, { useRef, useState, useTransition } from "react";
+
+// UI components
+import { Textarea } from "@/components/ui/textarea";
+
+// className helper
+import { cn } from "@/lib/utils";
+
+// Toolbar + formatting helpers
+import MarkdownToolbar, {
+  applyFormat,
+  replaceTextareaValue,
+  shortcutFormat,
+  type MarkdownFormat,
+} from "./markdown-toolbar";
+
+// @mention autocomplete
+import {
+  MentionSuggestions,
+  useMentionAutocomplete,
+} from "./mention-autocomplete";
+
+// Server Action - renders the preview with the post page's pipeline
+import { previewMarkdown } from "@/app/action/preview-markdown";
+
+/**
+ * Props
+ *
+ * Passed through to the textarea:
+ * id, name, defaultValue, placeholder, rows, className
+ *
+ * mentions → suggest users after "@" (off by default)
+ */
+type MarkdownEditorProps = {
+  id?: string;
+  name: string;
+  defaultValue?: string;
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+  mentions?: boolean;
+};
+
+/**
+ * MarkdownEditor (Client Component)
+ *
+ * The textarea is uncontrolled (like the plain Textarea it replaces),
+ * so forms still reset it after a successful submit.
+ */
+const MarkdownEditor = ({
+  id,
+  name,
+  defaultValue,
+  placeholder,
+  rows,
+  className,
+  mentions = false,
+}: MarkdownEditorProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Suggestions while typing "@name" (only used with `mentions`)
+  const mention = useMentionAutocomplete(textareaRef);
+
+  // "write" shows the textarea, "preview" the rendered Markdown
+  const [tab, setTab] = useState<"write" | "preview">("write");
+
+  // Rendered preview HTML (sanitized by the server)
+  const [previewHtml, setPreviewHtml] = useState("");
+  const [previewError, setPreviewError] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  /**
+   * Apply a format to the current selection
+   * and keep the edited text selected
+   */
+  const format = (markdownFormat: MarkdownFormat) => {
+    const textarea = textareaRef.current;
+
+    if (!textarea) {
+      return;
+    }
+
+    const result = applyFormat(
+      markdownFormat,
+      textarea.value,
+      textarea.selectionStart,
+      textarea.selectionEnd
+    );
+
+    // Undoable with Ctrl/⌘+Z, like typing
+    replaceTextareaValue(textarea, result.value);
+    textarea.setSelectionRange(result.selectionStart, result.selectionEnd);
+  };
+
+  /**
+   * Keyboard shortcuts (Ctrl/⌘ + B, E, K, Shift+., Shift+8)
+   * Open mention suggestions take the arrow keys, Enter, Tab and Escape first.
+   */
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (mentions && mention.handleKeyDown(event)) {
+      return;
+    }
+
+    const markdownFormat = shortcutFormat(event);
+
+    if (markdownFormat) {
+      event.preventDefault();
+      format(markdownFormat);
+    }
+  };
+
+  /**
+   * Switch to the Preview tab and render the current text
+   */
+  const showPreview = () => {
+    const content = textareaRef.current?.value || "";
+
+    setTab("preview");
+    setPreviewError(false);
+    mention.close();
+
+    startTransition(async () => {
+      try {
+        setPreviewHtml(content.trim() ? await previewMarkdown(content) : "");
+      } catch {
+        setPreviewError(true);
+      }
+    });
+  };
+
+  /**
+   * Tab button styles
+   */
+  const tabClassName = (active: boolean) =>
+    cn(
+      "rounded px-2 py-1 text-sm",
+      active ? "bg-gray-100 font-medium text-gray-900" : "text-gray-500 hover:text-gray-800"
+    );
+
+  return (
+    <div className="space-y-2">
+      {/* Tabs + toolbar */}
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={() => setTab("write")}
+            className={tabClassName(tab === "write")}
+          >
+            Write
+          </button>
+          <button
+            type="button"
+            onClick={showPreview}
+            className={tabClassName(tab === "preview")}
+          >
+            Preview
+          </button>
+        </div>
+
+        <MarkdownToolbar onFormat={format} disabled={tab === "preview"} />
+      </div>
+
+      {/* Write tab (hidden, not removed, while previewing) */}
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          id={id}
+          name={name}
+          defaultValue={defaultValue}
+          placeholder={placeholder}
+          rows={rows}
+          onKeyDown={handleKeyDown}
+          onInput={mentions ? mention.update : undefined}
+          onClick={mentions ? mention.update : undefined}
+          onBlur={mentions ? mention.close : undefined}
+          className={cn(className, tab === "preview" && "hidden")}
+        />
+
+        {mentions && (
+          <MentionSuggestions
+            suggestions={mention.suggestions}
+            activeIndex={mention.activeIndex}
+            onSelect={mention.select}
+          />
+        )}
+      </div>
+
+      {/* Preview tab */}
+      {tab === "preview" && (
+        <div className="min-h-16 rounded-md border px-3 py-2 text-sm">
+          {isPending ? (
+            <p className="text-gray-400">Loading preview...</p>
+          ) : previewError ? (
+            <p className="text-red-600">Could not render the preview</p>
+          ) : previewHtml ? (
+            <div
+              className="markdown"
+              // Safe: sanitized by the server (same pipeline as the post page)
+              dangerouslySetInnerHTML={{ __html: previewHtml }}
+            />
+          ) : (
+            <p className="text-gray-400">Nothing to preview</p>
+          )}
+        </div>
+      )}
+
+      {/* Syntax hint */}
+      <p className="text-xs text-gray-400">
+        Markdown is supported{mentions && " · type @ to mention someone"}
+      </p>
+    </div>
+  );
+};
+
+export default MarkdownEditor;
@@ -0,0 +1,235 @@
+// components/markdown/markdown-toolbar.tsx
+//
+// Formatting toolbar + keyboard shortcuts for Markdown textareas.
+// Shared by every editor through MarkdownEditor.
+
+"use client";
+
+// React types
+import type React from "react";
+
+// Icons
+import { Bold, Code, Link, List, Quote } from "lucide-react";
+
+/**
+ * TypeScript Type: MarkdownFormat
+ *
+ * Formatting the toolbar can apply to the selection
+ */
+export type MarkdownFormat = "bold" | "code" | "link" | "quote" | "list";
+
+/**
+ * Toolbar buttons, in display order
+ * shortcut is shown in the tooltip (Ctrl on Windows/Linux, ⌘ on macOS)
+ */
+const FORMATS = [
+  { format: "bold", label: "Bold", shortcut: "Ctrl+B", icon: Bold },
+  { format: "code", label: "Code", shortcut: "Ctrl+E", icon: Code },
+  { format: "link", label: "Link", shortcut: "Ctrl+K", icon: Link },
+  { format: "quote", label: "Quote", shortcut: "Ctrl+Shift+.", icon: Quote },
+  { format: "list", label: "List", shortcut: "Ctrl+Shift+8", icon: List },
+] as const;
+
+/**
+ * Helper Function: prefixLines
+ *
+ * Adds a prefix ("> " or "- ") to every selected line.
+ * The selection is widened to whole lines first.
+ */
+const prefixLines = (
+  value: string,
+  start: number,
+  end: number,
+  prefix: string
+) => {
+  const lineStart = value.lastIndexOf("\n", start - 1) + 1;
+  const selected = value.slice(lineStart, end);
+  const replaced = selected
+    .split("\n")
+    .map((line) => `${prefix}${line}`)
+    .join("\n");
+
+  return {
+    value: value.slice(0, lineStart) + replaced + value.slice(end),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + replaced.length,
+  };
+};
+
+/**
+ * Function: applyFormat
+ *
+ * Applies a format to the selected text (or inserts a placeholder).
+ *
+ * @param format - Format to apply
+ * @param value - Current textarea value
+ * @param start - Selection start
+ * @param end - Selection end
+ * @returns New value and the range to select afterwards
+ */
+export const applyFormat = (
+  format: MarkdownFormat,
+  value: string,
+  start: number,
+  end: number
+) => {
+  const selected = value.slice(start, end);
+
+  // Wrap the selection; select the inner text so typing replaces it
+  const wrap = (before: string, after: string, placeholder: string) => {
+    const inner = selected || placeholder;
+
+    return {
+      value: value.slice(0, start) + before + inner + after + value.slice(end),
+      selectionStart: start + before.length,
+      selectionEnd: start + before.length + inner.length,
+    };
+  };
+
+  switch (format) {
+    case "bold":
+      return wrap("**", "**", "bold text");
+    case "code":
+      // Multi-line selections become a fenced code block
+      return selected.includes("\n")
+        ? wrap("```\n", "\n```", "")
+        : wrap("`", "`", "code");
+    case "link": {
+      // Select "url" so it can be pasted over right away
+      const text = selected || "link text";
+      const before = value.slice(0, start) + `[${text}](`;
+
+      return {
+        value: before + "url)" + value.slice(end),
+        selectionStart: before.length,
+        selectionEnd: before.length + 3,
+      };
+    }
+    case "quote":
+      return prefixLines(value, start, end, "> ");
+    case "list":
+      return prefixLines(value, start, end, "- ");
+  }
+};
+
+/**
+ * Function: shortcutFormat
+ *
+ * Maps a keyboard event to a format (GitHub's shortcuts).
+ *
+ * @param event - keydown event from the textarea
+ * @returns MarkdownFormat | null - Format to apply, or null for other keys
+ */
+export const shortcutFormat = (
+  event: React.KeyboardEvent<HTMLTextAreaElement>
+): MarkdownFormat | null => {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+    return null;
+  }
+
+  if (event.shiftKey) {
+    // event.code - physical key, so it works on any keyboard layout
+    if (event.code === "Period") return "quote";
+    if (event.code === "Digit8") return "list";
+    return null;
+  }
+
+  switch (event.key.toLowerCase()) {
+    case "b":
+      return "bold";
+    case "e":
+      return "code";
+    case "k":
+      return "link";
+    default:
+      return null;
+  }
+};
+
+/**
+ * Function: replaceTextareaValue
+ *
+ * Writes a new value into a textarea as one undoable edit.
+ * Only the changed part is replaced, through the browser's own text
+ * insertion - setting `value` would clear the undo history, so
+ * Ctrl/⌘+Z couldn't take a format back.
+ *
+ * @param textarea - Textarea to edit
+ * @param value - Its new value
+ */
+export const replaceTextareaValue = (
+  textarea: HTMLTextAreaElement,
+  value: string
+) => {
+  const current = textarea.value;
+
+  // Unchanged text before and after the edit
+  let start = 0;
+  while (
+    start < current.length &&
+    start < value.length &&
+    current[start] === value[start]
+  ) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < value.length - start &&
+    current[current.length - 1 - end] === value[value.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const inserted = value.slice(start, value.length - end);
+
+  textarea.focus();
+  textarea.setSelectionRange(start, current.length - end);
+
+  // execCommand is deprecated, but still the only insertion the undo stack
+  // records - setRangeText is the fallback where it isn't supported
+  if (!document.execCommand("insertText", false, inserted)) {
+    textarea.setRangeText(inserted);
+  }
+};
+
+/**
+ * Props
+ *
+ * onFormat → called with the clicked format
+ * disabled → true while previewing
+ */
+type MarkdownToolbarProps = {
+  onFormat: (format: MarkdownFormat) => void;
+  disabled?: boolean;
+};
+
+/**
+ * MarkdownToolbar (Client Component)
+ *
+ * Row of small icon buttons
+ */
+const MarkdownToolbar = ({ onFormat, disabled }: MarkdownToolbarProps) => {
+  return (
+    <div className="flex gap-1" role="toolbar" aria-label="Formatting">
+      {FORMATS.map(({ format, label, shortcut, icon: Icon }) => (
+        <button
+          key={format}
+          type="button"
+          title={`${label} (${shortcut})`}
+          aria-label={label}
+          disabled={disabled}
+          // Keep focus (and the selection) in the textarea
+          onMouseDown={(event) => event.preventDefault()}
+          onClick={() => onFormat(format)}
+          className="rounded p-1 text-gray-500 hover:bg-gray-100 hover:text-gray-800 disabled:opacity-40"
+        >
+          <Icon className="h-4 w-4" />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default MarkdownToolbar;
@@ -0,0 +1,232 @@
+// components/markdown/mention-autocomplete.tsx
+//
+// @mention autocomplete for the Markdown editor.
+// Typing "@" + the start of a name suggests users; ↑/↓ pick one,
+// Enter or Tab inserts its handle ("@Jane_Doe "), Escape closes the list.
+
+"use client";
+
+// React hooks
+// useEffect -> clears a pending lookup when the editor unmounts
+// useRef    -> debounce timer + latest request (older answers are ignored)
+// useState  -> suggestions and the highlighted one
+import React, { useEffect, useRef, useState } from "react";
+
+// className helper
+import { cn } from "@/lib/utils";
+
+// Server Action - users matching the typed prefix
+import {
+  suggestMentionUsers,
+  type MentionSuggestion,
+} from "@/app/action/mention-users";
+
+/**
+ * "@" + handle prefix right before the caret
+ * (same characters as lib/mentions.ts, "@" not inside a word)
+ */
+const TYPED_MENTION = /(^|[^\p{L}\p{N}_])@([\p{L}\p{N}_.-]*)$/u;
+
+/**
+ * Wait this long after the last keystroke before asking the server
+ */
+const DEBOUNCE_MS = 150;
+
+/**
+ * Hook: useMentionAutocomplete
+ *
+ * @param textareaRef - The editor's (uncontrolled) textarea
+ * @returns Suggestions, the highlighted index and the event handlers
+ */
+export const useMentionAutocomplete = (
+  textareaRef: React.RefObject<HTMLTextAreaElement | null>
+) => {
+  const [suggestions, setSuggestions] = useState<MentionSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Where the "@" being completed starts
+  const startRef = useRef(0);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const requestRef = useRef(0);
+
+  // No lookup may finish after the editor is gone
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+      }
+    };
+  }, []);
+
+  const close = () => {
+    requestRef.current++;
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+    }
+    setSuggestions([]);
+  };
+
+  /**
+   * Look at the text before the caret (after typing or moving the caret)
+   */
+  const update = () => {
+    const textarea = textareaRef.current;
+
+    if (!textarea || textarea.selectionStart !== textarea.selectionEnd) {
+      close();
+      return;
+    }
+
+    const match = textarea.value
+      .slice(0, textarea.selectionStart)
+      .match(TYPED_MENTION);
+    const prefix = match?.[2];
+
+    if (!prefix) {
+      close();
+      return;
+    }
+
+    startRef.current = textarea.selectionStart - prefix.length - 1;
+
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+    }
+
+    const request = ++requestRef.current;
+
+    timerRef.current = setTimeout(async () => {
+      try {
+        const users = await suggestMentionUsers(prefix);
+
+        // A newer keystroke asked again meanwhile
+        if (request === requestRef.current) {
+          setSuggestions(users);
+          setActiveIndex(0);
+        }
+      } catch {
+        // No suggestions - the user can still type the handle
+      }
+    }, DEBOUNCE_MS);
+  };
+
+  /**
+   * Replace "@prefix" with the chosen user's handle
+   */
+  const select = (suggestion: MentionSuggestion) => {
+    const textarea = textareaRef.current;
+
+    if (!textarea) {
+      return;
+    }
+
+    const before = textarea.value.slice(0, startRef.current);
+    const after = textarea.value.slice(textarea.selectionStart);
+    const mention = `@${suggestion.handle} `;
+
+    textarea.value = before + mention + after;
+    textarea.focus();
+    textarea.setSelectionRange(
+      before.length + mention.length,
+      before.length + mention.length
+    );
+    close();
+  };
+
+  /**
+   * Keyboard navigation while suggestions are shown
+   *
+   * @returns boolean - true when the key was used by the autocomplete
+   */
+  const handleKeyDown = (
+    event: React.KeyboardEvent<HTMLTextAreaElement>
+  ): boolean => {
+    if (suggestions.length === 0) {
+      return false;
+    }
+
+    switch (event.key) {
+      case "ArrowDown":
+        setActiveIndex((activeIndex + 1) % suggestions.length);
+        break;
+      case "ArrowUp":
+        setActiveIndex(
+          (activeIndex - 1 + suggestions.length) % suggestions.length
+        );
+        break;
+      case "Enter":
+      case "Tab":
+        select(suggestions[activeIndex]);
+        break;
+      case "Escape":
+        close();
+        break;
+      default:
+        return false;
+    }
+
+    event.preventDefault();
+    return true;
+  };
+
+  return { suggestions, activeIndex, update, select, close, handleKeyDown };
+};
+
+/**
+ * Props
+ *
+ * suggestions → users to offer
+ * activeIndex → highlighted user (keyboard)
+ * onSelect    → insert a user's handle
+ */
+type MentionSuggestionsProps = {
+  suggestions: MentionSuggestion[];
+  activeIndex: number;
+  onSelect: (suggestion: MentionSuggestion) => void;
+};
+
+/**
+ * MentionSuggestions (Client Component)
+ *
+ * Dropdown under the textarea. onMouseDown keeps the focus in the
+ * textarea, so the caret position is still known when a user is picked.
+ */
+export const MentionSuggestions = ({
+  suggestions,
+  activeIndex,
+  onSelect,
+}: MentionSuggestionsProps) => {
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul
+      role="listbox"
+      className="absolute left-0 top-full z-10 mt-1 w-64 overflow-hidden rounded-md border bg-white py-1 text-sm shadow-md"
+    >
+      {suggestions.map((suggestion, index) => (
+        <li
+          key={suggestion.id}
+          role="option"
+          aria-selected={index === activeIndex}
+          onMouseDown={(event) => {
+            event.preventDefault();
+            onSelect(suggestion);
+          }}
+          className={cn(
+            "flex cursor-pointer items-center justify-between gap-2 px-3 py-1.5",
+            index === activeIndex ? "bg-gray-100" : "hover:bg-gray-50"
+          )}
+        >
+          <span className="truncate font-medium text-gray-900">
+            {suggestion.name}
+          </span>
+          <span className="truncate text-xs text-gray-500">
+            @{suggestion.handle}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
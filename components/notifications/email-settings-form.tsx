@@ -0,0 +1,104 @@
+// components/notifications/email-settings-form.tsx
+//
+// Profile section where users choose how often they get
+// notifications by email (off, right away, daily or weekly digest).
+
+"use client";
+
+// React 19+ hook for handling server action form state
+import { useActionState } from "react";
+
+// UI components
+import { Button } from "@/components/ui/button";
+
+// Server action (and its form state type)
+import {
+  updateEmailSettings,
+  type EmailSettingsFormState,
+} from "@/app/action/notification";
+
+// Import Prisma types
+import type { EmailFrequency } from "@prisma/client";
+
+/**
+ * Choices, in the order shown
+ */
+const FREQUENCIES: { value: EmailFrequency; label: string; hint: string }[] = [
+  { value: "OFF", label: "Off", hint: "Only the bell in the header" },
+  { value: "IMMEDIATE", label: "Right away", hint: "One email per notification" },
+  { value: "DAILY", label: "Daily digest", hint: "Unread notifications, once a day" },
+  { value: "WEEKLY", label: "Weekly digest", hint: "Unread notifications, once a week" },
+];
+
+/**
+ * EmailSettingsForm (Client Component)
+ *
+ * @param frequency - The user's current choice
+ * @param email - Where the emails go
+ */
+const EmailSettingsForm = ({
+  frequency,
+  email,
+}: {
+  frequency: EmailFrequency;
+  email: string;
+}) => {
+  const [formState, action, isPending] = useActionState<
+    EmailSettingsFormState,
+    FormData
+  >(updateEmailSettings, { errors: {} });
+
+  return (
+    <form action={action} className="space-y-3 rounded border bg-white p-4">
+      <p className="text-sm text-gray-600">
+        Get replies and mentions by email at{" "}
+        <span className="font-medium text-gray-900">{email}</span>
+      </p>
+
+      <fieldset className="grid gap-2 sm:grid-cols-2">
+        <legend className="sr-only">Email frequency</legend>
+        {FREQUENCIES.map((option) => (
+          <label
+            key={option.value}
+            className="flex cursor-pointer items-start gap-2 rounded border p-3 text-sm has-[:checked]:border-blue-300 has-[:checked]:bg-blue-50"
+          >
+            <input
+              type="radio"
+              name="frequency"
+              value={option.value}
+              defaultChecked={option.value === frequency}
+              className="mt-1"
+            />
+            <span>
+              <span className="block font-medium text-gray-900">
+                {option.label}
+              </span>
+              <span className="text-gray-500">{option.hint}</span>
+            </span>
+          </label>
+        ))}
+      </fieldset>
+
+      {formState.errors.frequency && (
+        <p className="text-sm text-red-600">{formState.errors.frequency}</p>
+      )}
+
+      {formState.errors.formError && (
+        <div className="rounded border border-red-300 bg-red-50 p-2 text-sm text-red-700">
+          {formState.errors.formError}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        {formState.success && (
+          <span className="text-sm text-green-600">Saved</span>
+        )}
+        <Button type="submit" size="sm" disabled={isPending}>
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default EmailSettingsForm;
@@ -0,0 +1,52 @@
+// components/notifications/mark-all-read-button.tsx
+//
+// "Mark all as read" button on the inbox page.
+
+"use client";
+
+// React hook
+// useTransition -> pending state while the notifications are marked
+import { useTransition } from "react";
+
+// UI
+import { Button } from "@/components/ui/button";
+
+// Icons
+import { CheckCheck } from "lucide-react";
+
+// Server action
+import { markAllNotificationsRead } from "@/app/action/notification";
+
+/**
+ * MarkAllReadButton (Client Component)
+ *
+ * The inbox and the bell refresh through revalidatePath.
+ */
+const MarkAllReadButton = () => {
+  const [isPending, startTransition] = useTransition();
+
+  const handleClick = () => {
+    startTransition(async () => {
+      try {
+        await markAllNotificationsRead();
+      } catch {
+        // Nothing changes
+      }
+    });
+  };
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      className="gap-1"
+      onClick={handleClick}
+      disabled={isPending}
+    >
+      <CheckCheck className="h-4 w-4" />
+      Mark all as read
+    </Button>
+  );
+};
+
+export default MarkAllReadButton;
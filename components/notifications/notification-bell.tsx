@@ -0,0 +1,52 @@
+// components/notifications/notification-bell.tsx
+//
+// Bell in the header linking to the inbox, with the number of unread
+// notifications. Renders nothing for guests.
+
+// Server-side auth
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+
+// Next.js Link
+import Link from "next/link";
+
+// Icons
+import { Bell } from "lucide-react";
+
+// Unread count
+import { countUnreadNotifications } from "@/lib/query/notification";
+
+/**
+ * NotificationBell (Server Component)
+ *
+ * The count refreshes with the layout (revalidatePath("/", "layout")
+ * in the notification actions) and on every navigation.
+ */
+const NotificationBell = async () => {
+  const session = await getServerSession(authOptions);
+
+  if (!session || !session.user || !session.user.id) {
+    return null;
+  }
+
+  const unread = await countUnreadNotifications(session.user.id);
+
+  return (
+    <Link
+      href="/notifications"
+      className="relative rounded-md p-2 text-gray-600 hover:bg-gray-100 hover:text-gray-900 transition"
+      aria-label={
+        unread > 0 ? `Notifications (${unread} unread)` : "Notifications"
+      }
+    >
+      <Bell className="h-5 w-5" />
+      {unread > 0 && (
+        <span className="absolute -right-0.5 -top-0.5 min-w-4 rounded-full bg-red-600 px-1 text-center text-[10px] font-semibold leading-4 text-white">
+          {unread > 99 ? "99+" : unread}
+        </span>
+      )}
+    </Link>
+  );
+};
+
+export default NotificationBell;
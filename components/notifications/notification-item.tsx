@@ -0,0 +1,114 @@
+// components/notifications/notification-item.tsx
+//
+// One notification in the inbox: who did what, where, and when.
+// Unread notifications are highlighted; opening one marks it as read.
+
+"use client";
+
+// React hook
+// useTransition -> pending state while the notification is marked as read
+import { useTransition } from "react";
+
+// Next.js Link
+import Link from "next/link";
+
+// UI
+import { Button } from "@/components/ui/button";
+
+// Actor name → public profile
+import UserLink from "@/components/users/user-link";
+
+// Notification type + wording
+import type { InboxNotification } from "@/lib/query/notification";
+import {
+  NOTIFICATION_DESCRIPTIONS,
+  notificationExcerpt,
+  notificationPath,
+} from "@/lib/notification-text";
+
+// Server action
+import { markNotificationRead } from "@/app/action/notification";
+
+/**
+ * NotificationItem (Client Component)
+ *
+ * @param notification - Notification with actor, post and comment
+ */
+const NotificationItem = ({
+  notification,
+}: {
+  notification: InboxNotification;
+}) => {
+  const [isPending, startTransition] = useTransition();
+
+  const unread = notification.readAt === null;
+
+  // Comments link to their place in the thread
+  const href = notificationPath(notification);
+  const excerpt = notificationExcerpt(notification.comment);
+
+  const markRead = () => {
+    if (!unread) {
+      return;
+    }
+    startTransition(async () => {
+      try {
+        await markNotificationRead(notification.id);
+      } catch {
+        // Stays unread
+      }
+    });
+  };
+
+  return (
+    <li
+      className={`flex items-start gap-3 rounded border p-4 text-sm ${
+        unread ? "border-blue-200 bg-blue-50" : "bg-white"
+      }`}
+    >
+      <div className="min-w-0 flex-1 space-y-1">
+        <p>
+          <UserLink
+            user={notification.actor}
+            fallback="Someone"
+            className="font-medium text-gray-900"
+          />{" "}
+          <span className="text-gray-600">
+            {NOTIFICATION_DESCRIPTIONS[notification.type]}
+          </span>{" "}
+          <Link
+            href={href}
+            onClick={markRead}
+            className="font-medium text-gray-900 hover:underline"
+          >
+            {notification.post.title}
+          </Link>
+        </p>
+
+        {excerpt && (
+          <p className="line-clamp-2 text-gray-600">{excerpt}</p>
+        )}
+
+        <p className="text-xs text-gray-400">
+          {new Date(notification.createdAt).toLocaleString("en-US", {
+            dateStyle: "medium",
+            timeStyle: "short",
+          })}
+        </p>
+      </div>
+
+      {unread && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={markRead}
+          disabled={isPending}
+        >
+          Mark read
+        </Button>
+      )}
+    </li>
+  );
+};
+
+export default NotificationItem;
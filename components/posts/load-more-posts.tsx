@@ -0,0 +1,110 @@
+// components/posts/load-more-posts.tsx
+//
+// "Load more" button for the home page feed.
+// Appends further pages of top posts below the server-rendered first page.
+
+"use client";
+
+// React hooks
+// useState      -> loaded posts, next cursor + load error
+// useTransition -> pending state while loading
+import { useState, useTransition } from "react";
+
+// UI
+import { Button } from "@/components/ui/button";
+import PostListItem from "./post-list-item";
+
+// Server action that returns the next page
+import { loadTopPosts } from "@/app/action/load-top-posts";
+
+// Types
+import type { PostWithData, TopPostsWindow } from "@/lib/query/post";
+import type { ViewerVotes } from "@/lib/query/vote";
+
+/**
+ * Props
+ *
+ * timeWindow    → time window of the ranking
+ * initialCursor → cursor returned with the first (server-rendered) page
+ */
+type LoadMorePostsProps = {
+  timeWindow: TopPostsWindow;
+  initialCursor: string;
+};
+
+/**
+ * LoadMorePosts (Client Component)
+ *
+ * Responsibility:
+ * - Fetch the next page when the button is clicked
+ * - Render the extra posts below the first page
+ * - Hide the button once there are no more posts
+ * - Keep the cursor when a page fails to load, so the button retries it
+ */
+const LoadMorePosts = ({ timeWindow, initialCursor }: LoadMorePostsProps) => {
+  // Posts loaded so far (beyond the first page)
+  const [posts, setPosts] = useState<PostWithData[]>([]);
+
+  // Viewer's votes on the loaded posts
+  const [viewerVotes, setViewerVotes] = useState<ViewerVotes>({});
+
+  // Cursor for the next request (null = nothing left)
+  const [cursor, setCursor] = useState<string | null>(initialCursor);
+
+  // Last load failed (expired session, database error...)
+  const [failed, setFailed] = useState(false);
+
+  const [isPending, startTransition] = useTransition();
+
+  /**
+   * Load the next page and append it
+   */
+  const handleLoadMore = () => {
+    if (!cursor) return;
+
+    startTransition(async () => {
+      try {
+        const page = await loadTopPosts(timeWindow, cursor);
+
+        setPosts((current) => [...current, ...page.items]);
+        setViewerVotes((current) => ({ ...current, ...page.viewerVotes }));
+        setCursor(page.nextCursor);
+        setFailed(false);
+      } catch {
+        // Cursor stays - clicking again retries the same page
+        setFailed(true);
+      }
+    });
+  };
+
+  return (
+    <div className="mt-3 space-y-3">
+      {posts.map((post) => (
+        <PostListItem
+          key={post.id}
+          post={post}
+          viewerVote={viewerVotes[post.id]}
+        />
+      ))}
+
+      {failed && (
+        <p className="text-sm text-red-600">
+          Couldn&apos;t load more posts. Try again.
+        </p>
+      )}
+
+      {cursor && (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={handleLoadMore}
+          disabled={isPending}
+        >
+          {isPending ? "Loading..." : "Load more"}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default LoadMorePosts;
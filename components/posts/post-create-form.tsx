@@ -34,8 +34,8 @@ import { Input } from "@/components/ui/input";
 // Label - form label for accessibility (links label to input via htmlFor/id)
 import { Label } from "@/components/ui/label";
 
-// Textarea - multi-line text input component for longer content
-import { Textarea } from "@/components/ui/textarea"; 
+// MarkdownEditor - textarea with Write/Preview tabs and a formatting toolbar
+import MarkdownEditor from "@/components/markdown/markdown-editor";
 
 // Import the server action that handles post creation
 // Server Actions are async functions that run on the server
@@ -144,8 +144,8 @@ const PostCreateForm : React.FC<CreatePostFormProps> = ({slug}) => {
               <Label htmlFor="content" className="text-right">
                 Content
               </Label>
-              {/* Multi-line text input for post content */}
-              <Textarea id="content" name="content" />
+              {/* Markdown editor for post content (Write / Preview) */}
+              <MarkdownEditor id="content" name="content" mentions />
             </div>
             
             {/* Conditional error display for content field */}
@@ -20,7 +20,7 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
+import MarkdownEditor from "@/components/markdown/markdown-editor";
 
 // Icon for edit action
 import { Pencil } from "lucide-react";
@@ -120,7 +120,7 @@ const PostEditForm = ({
             {/* Content */}
             <div className="space-y-1">
               <Label htmlFor="edit-content">Content</Label>
-              <Textarea
+              <MarkdownEditor
                 id="edit-content"
                 name="content"
                 defaultValue={content}
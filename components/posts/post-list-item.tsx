@@ -0,0 +1,119 @@
+// components/posts/post-list-item.tsx
+//
+// A single post card inside a post list (votes + title + meta).
+// Announcements and pinned posts get a highlighted card with a badge.
+// Has no server-only code, so it renders in both PostList (server)
+// and LoadMorePosts (client).
+
+// Next.js Link
+import Link from "next/link";
+
+// UI components
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+
+// Icons
+import { Megaphone, Pin } from "lucide-react";
+
+// Votes
+import VoteControls from "@/components/votes/vote-controls";
+
+// Author name → public profile
+import UserLink from "@/components/users/user-link";
+
+// Post type
+import type { PostWithData } from "@/lib/query/post";
+
+/**
+ * Props
+ *
+ * post       → post to show
+ * viewerVote → the viewer's vote on it (1, -1 or undefined)
+ */
+type PostListItemProps = {
+  post: PostWithData;
+  viewerVote?: number;
+};
+
+/**
+ * PostListItem
+ *
+ * Displays one post as a clickable card with vote arrows.
+ * The title link covers the whole card; the author link sits above it
+ * (links can't be nested).
+ */
+const PostListItem = ({ post, viewerVote }: PostListItemProps) => {
+  // Announcement wins over pinned when a post is both
+  const highlight = post.announcedAt
+    ? "announcement"
+    : post.pinnedAt
+      ? "pinned"
+      : null;
+
+  return (
+    <div className="flex items-center gap-2">
+      {/* Votes (outside the link so clicks don't navigate) */}
+      <VoteControls
+        target={{ postId: post.id }}
+        score={post.score}
+        viewerVote={viewerVote}
+      />
+
+      <Card
+        className={`relative flex-1 ${
+          highlight === "announcement"
+            ? "border border-amber-300 bg-amber-50 hover:bg-amber-100"
+            : highlight === "pinned"
+              ? "border border-sky-300 bg-sky-50 hover:bg-sky-100"
+              : "border bg-white hover:bg-gray-50"
+        }`}
+      >
+        <CardHeader className="space-y-1">
+          {/* Badge */}
+          {highlight === "announcement" && (
+            <span className="flex items-center gap-1 text-xs font-medium text-amber-700">
+              <Megaphone className="h-3 w-3" />
+              Announcement
+            </span>
+          )}
+          {highlight === "pinned" && (
+            <span className="flex items-center gap-1 text-xs font-medium text-sky-700">
+              <Pin className="h-3 w-3" />
+              Pinned
+            </span>
+          )}
+
+          {/* Title (its link stretches over the card) */}
+          <CardTitle className="text-base font-medium text-gray-900">
+            <Link
+              href={`/topic/${post.topic.slug}/posts/${post.id}`}
+              className="after:absolute after:inset-0"
+            >
+              {post.title}
+            </Link>
+          </CardTitle>
+
+          {/* Meta */}
+          <CardDescription className="flex justify-between text-xs text-gray-500">
+            <UserLink
+              user={{ id: post.userId, name: post.user.name }}
+              className="relative z-10"
+            />
+            <span>
+              {post._count.comments}{" "}
+              {post._count.comments === 1
+                ? "comment"
+                : "comments"}
+            </span>
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    </div>
+  );
+};
+
+export default PostListItem;
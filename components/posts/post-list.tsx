@@ -1,19 +1,18 @@
 // React import for JSX types
 import React from "react";
 
-// UI components
-import {
-  Card,
-  CardHeader,
-  CardTitle,
-  CardDescription,
-} from "@/components/ui/card";
+// Single post card
+import PostListItem from "./post-list-item";
 
 // Post type
 import { PostWithData } from "@/lib/query/post";
 
-// Next.js Link
-import Link from "next/link";
+// Viewer votes
+import { fetchViewerVotes } from "@/lib/query/vote";
+
+// Server-side auth (to highlight the viewer's votes)
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
 
 /**
  * Props:
@@ -30,6 +29,7 @@ type PostListProps = {
  */
 const PostList = async ({ fetchData }: PostListProps) => {
   const posts = await fetchData();
+  const session = await getServerSession(authOptions);
 
   // Empty state
   if (!posts || posts.length === 0) {
@@ -40,36 +40,19 @@ const PostList = async ({ fetchData }: PostListProps) => {
     );
   }
 
+  // Viewer's votes for all listed posts (one query)
+  const viewerVotes = await fetchViewerVotes(session?.user?.id, {
+    postIds: posts.map((post) => post.id),
+  });
+
   return (
     <div className="space-y-3">
       {posts.map((post) => (
-        <Link
+        <PostListItem
           key={post.id}
-          href={`/topic/${post.topic.slug}/posts/${post.id}`}
-          className="block"
-        >
-          <Card className="border bg-white hover:bg-gray-50">
-            <CardHeader className="space-y-1">
-              {/* Title */}
-              <CardTitle className="text-base font-medium text-gray-900">
-                {post.title}
-              </CardTitle>
-
-              {/* Meta */}
-              <CardDescription className="flex justify-between text-xs text-gray-500">
-                <span>
-                  {post.user.name || "Anonymous"}
-                </span>
-                <span>
-                  {post._count.comments}{" "}
-                  {post._count.comments === 1
-                    ? "comment"
-                    : "comments"}
-                </span>
-              </CardDescription>
-            </CardHeader>
-          </Card>
-        </Link>
+          post={post}
+          viewerVote={viewerVotes[post.id]}
+        />
       ))}
     </div>
   );
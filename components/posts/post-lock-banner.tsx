@@ -0,0 +1,45 @@
+// components/posts/post-lock-banner.tsx
+//
+// Banner shown instead of the comment form on locked and archived posts.
+
+// Icons
+import { Archive, Lock } from "lucide-react";
+
+/**
+ * Props
+ *
+ * lockedAt   → set when a moderator locked the post
+ * archivedAt → set when the post was archived after inactivity
+ */
+type PostLockBannerProps = {
+  lockedAt: Date | null;
+  archivedAt: Date | null;
+};
+
+/**
+ * PostLockBanner (Server Component)
+ *
+ * A lock wins over archiving (it was a deliberate moderator decision).
+ */
+const PostLockBanner = ({ lockedAt, archivedAt }: PostLockBannerProps) => {
+  if (!lockedAt && !archivedAt) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900">
+      {lockedAt ? (
+        <Lock className="h-4 w-4 shrink-0" />
+      ) : (
+        <Archive className="h-4 w-4 shrink-0" />
+      )}
+      <p>
+        {lockedAt
+          ? "This post has been locked by a moderator. New comments are turned off."
+          : "This post has been archived after a long time without activity. New comments are turned off."}
+      </p>
+    </div>
+  );
+};
+
+export default PostLockBanner;
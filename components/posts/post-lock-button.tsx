@@ -0,0 +1,69 @@
+// components/posts/post-lock-button.tsx
+//
+// Lock / reopen button on the post page.
+// Visible to moderators (site or topic) and admins.
+
+"use client";
+
+// React hook
+// useTransition -> pending state while the post is locked / reopened
+import { useTransition } from "react";
+
+// UI
+import { Button } from "@/components/ui/button";
+
+// Icons
+import { Lock, LockOpen } from "lucide-react";
+
+// Server action
+import { setPostLock } from "@/app/action/lock-post";
+
+/**
+ * Props
+ *
+ * postId → post to lock or reopen
+ * closed → true when the post is locked or archived
+ */
+type PostLockButtonProps = {
+  postId: string;
+  closed: boolean;
+};
+
+/**
+ * PostLockButton (Client Component)
+ *
+ * The page refreshes through revalidatePath once the action is done.
+ */
+const PostLockButton = ({ postId, closed }: PostLockButtonProps) => {
+  const [isPending, startTransition] = useTransition();
+
+  const handleToggle = () => {
+    startTransition(async () => {
+      try {
+        // Ask for the state shown on the button, not a flip
+        await setPostLock(postId, !closed);
+      } catch {
+        // Post stays as it was
+      }
+    });
+  };
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      className="gap-1"
+      onClick={handleToggle}
+      disabled={isPending}
+    >
+      {closed ? (
+        <LockOpen className="h-4 w-4" />
+      ) : (
+        <Lock className="h-4 w-4" />
+      )}
+      {closed ? "Reopen" : "Lock"}
+    </Button>
+  );
+};
+
+export default PostLockButton;
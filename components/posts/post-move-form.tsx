@@ -0,0 +1,124 @@
+// components/posts/post-move-form.tsx
+//
+// Dialog for moving a post to another topic.
+// Shown to the post's author and to moderators (site or topic).
+
+"use client";
+
+// React hook for handling server actions with form state
+import { useActionState } from "react";
+
+// UI components (shadcn/ui)
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+
+// Icon for move action
+import { FolderInput } from "lucide-react";
+
+// Server action (and its form state type)
+import { movePost, type MovePostFormState } from "@/app/action/move-post";
+
+// Topic names in the picker
+import { topicDisplayName } from "@/components/topic/topic-style";
+
+/**
+ * Props
+ *
+ * postId → post to move
+ * slug   → its current topic (left out of the picker)
+ * topics → topics it can be moved to
+ */
+type PostMoveFormProps = {
+  postId: string;
+  slug: string;
+  topics: { slug: string; name: string | null }[];
+};
+
+/**
+ * PostMoveForm (Client Component)
+ *
+ * The action redirects to the post's new URL once it is moved.
+ */
+const PostMoveForm = ({ postId, slug, topics }: PostMoveFormProps) => {
+  // Bind the post id (useActionState passes prevState + formData)
+  const movePostAction = (prevState: MovePostFormState, formData: FormData) =>
+    movePost(postId, prevState, formData);
+
+  const [formState, formAction, isPending] = useActionState(movePostAction, {
+    errors: {},
+  });
+
+  const options = topics.filter((topic) => topic.slug !== slug);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1">
+          <FolderInput className="h-4 w-4" />
+          Move
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-md">
+        <form action={formAction}>
+          <DialogHeader>
+            <DialogTitle>Move post</DialogTitle>
+            <DialogDescription>
+              Comments and votes move with the post. Links to its current
+              address keep working.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-1">
+              <Label htmlFor="move-topic">New topic</Label>
+              <select
+                id="move-topic"
+                name="topic"
+                className="h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs"
+              >
+                {options.map((topic) => (
+                  <option key={topic.slug} value={topic.slug}>
+                    {topicDisplayName(topic)} (#{topic.slug})
+                  </option>
+                ))}
+              </select>
+              {formState.errors.topic && (
+                <p className="text-sm text-red-600">
+                  {formState.errors.topic}
+                </p>
+              )}
+            </div>
+
+            {formState.errors.formError && (
+              <div className="rounded border border-red-300 bg-red-50 p-2 text-sm text-red-700">
+                {formState.errors.formError}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isPending || options.length === 0}
+            >
+              Move post
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PostMoveForm;
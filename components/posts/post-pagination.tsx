@@ -0,0 +1,93 @@
+// components/posts/post-pagination.tsx
+//
+// "First page" / "Next page" links below a paginated post list.
+// Paging lives in the URL (?cursor=...), so every page is a normal,
+// shareable and crawlable link.
+
+// Next.js Link
+import Link from "next/link";
+
+// UI
+import { Button } from "@/components/ui/button";
+
+/**
+ * Props
+ *
+ * basePath   → page path without query string (e.g. "/topic/javascript")
+ * params     → other query params to keep (e.g. { sort: "top" })
+ * cursor     → cursor of the current page (undefined on the first page)
+ * nextCursor → cursor of the next page (null on the last page)
+ */
+type PostPaginationProps = {
+  basePath: string;
+  params?: Record<string, string | undefined>;
+  cursor?: string;
+  nextCursor: string | null;
+};
+
+/**
+ * Build a URL for basePath with the given query params
+ * (undefined values are left out)
+ */
+const buildHref = (
+  basePath: string,
+  params: Record<string, string | undefined>
+) => {
+  const query = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value) {
+      query.set(key, value);
+    }
+  }
+
+  const queryString = query.toString();
+
+  return queryString ? `${basePath}?${queryString}` : basePath;
+};
+
+/**
+ * PostPagination (Server Component)
+ *
+ * Renders nothing when there is only one page.
+ */
+const PostPagination = ({
+  basePath,
+  params = {},
+  cursor,
+  nextCursor,
+}: PostPaginationProps) => {
+  // Single page - no links needed
+  if (!cursor && !nextCursor) {
+    return null;
+  }
+
+  return (
+    <nav className="flex justify-between pt-2" aria-label="Pagination">
+      {/* Back to the first page (cursors only go forward) */}
+      <div>
+        {cursor && (
+          <Button variant="outline" size="sm" asChild>
+            <Link href={buildHref(basePath, params)}>← First page</Link>
+          </Button>
+        )}
+      </div>
+
+      {/* Next page */}
+      <div>
+        {nextCursor && (
+          <Button variant="outline" size="sm" asChild>
+            <Link
+              href={buildHref(basePath, { ...params, cursor: nextCursor })}
+              rel="next"
+            >
+              Next page →
+            </Link>
+          </Button>
+        )}
+      </div>
+    </nav>
+  );
+};
+
+export default PostPagination;
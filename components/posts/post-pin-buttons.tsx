@@ -0,0 +1,100 @@
+// components/posts/post-pin-buttons.tsx
+//
+// Pin / announce buttons on the post page.
+// Pin: moderators (site or topic) and admins. Announce: admins.
+
+"use client";
+
+// React hook
+// useTransition -> pending state while the post is pinned / announced
+import { useTransition } from "react";
+
+// UI
+import { Button } from "@/components/ui/button";
+
+// Icons
+import { Megaphone, Pin, PinOff } from "lucide-react";
+
+// Server actions
+import { setPostAnnouncement, setPostPin } from "@/app/action/pin-post";
+
+/**
+ * Props
+ *
+ * postId      → post to pin or announce
+ * pinned      → true when pinned to the top of its topic
+ * announced   → true when shown on the home page
+ * canPin      → viewer may pin
+ * canAnnounce → viewer may announce
+ */
+type PostPinButtonsProps = {
+  postId: string;
+  pinned: boolean;
+  announced: boolean;
+  canPin: boolean;
+  canAnnounce: boolean;
+};
+
+/**
+ * PostPinButtons (Client Component)
+ *
+ * The page refreshes through revalidatePath once the action is done.
+ */
+const PostPinButtons = ({
+  postId,
+  pinned,
+  announced,
+  canPin,
+  canAnnounce,
+}: PostPinButtonsProps) => {
+  const [isPending, startTransition] = useTransition();
+
+  // Each button asks for the state it shows, not a flip
+  const run = (
+    action: (postId: string, value: boolean) => Promise<void>,
+    value: boolean
+  ) => {
+    startTransition(async () => {
+      try {
+        await action(postId, value);
+      } catch {
+        // Post stays as it was
+      }
+    });
+  };
+
+  return (
+    <>
+      {canPin && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-1"
+          onClick={() => run(setPostPin, !pinned)}
+          disabled={isPending}
+        >
+          {pinned ? (
+            <PinOff className="h-4 w-4" />
+          ) : (
+            <Pin className="h-4 w-4" />
+          )}
+          {pinned ? "Unpin" : "Pin"}
+        </Button>
+      )}
+      {canAnnounce && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-1"
+          onClick={() => run(setPostAnnouncement, !announced)}
+          disabled={isPending}
+        >
+          <Megaphone className="h-4 w-4" />
+          {announced ? "Withdraw" : "Announce"}
+        </Button>
+      )}
+    </>
+  );
+};
+
+export default PostPinButtons;
@@ -5,9 +5,29 @@ import { prisma } from "@/lib";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 
-// Owner-only actions
+// Permission checks (owner, moderators, admins)
+import { can } from "@/lib/permissions";
+import { fetchTopicOptions, topicRolesSelect } from "@/lib/query/topic";
+
+// Edit / delete actions
 import PostEditForm from "./post-edit-form";
 import PostDeleteButton from "./post-delete-button";
+import PostLockButton from "./post-lock-button";
+import PostPinButtons from "./post-pin-buttons";
+import PostMoveForm from "./post-move-form";
+
+// Report to the moderators
+import ReportButton from "@/components/reports/report-button";
+
+// Votes
+import VoteControls from "@/components/votes/vote-controls";
+import { fetchViewerVotes } from "@/lib/query/vote";
+
+// Markdown body (sanitized on the server)
+import MarkdownContent from "@/components/markdown/markdown-content";
+
+// Author name → public profile
+import UserLink from "@/components/users/user-link";
 
 /**
  * Props:
@@ -23,7 +43,10 @@ type PostShowProps = {
  * Responsibility:
  * - Fetch a single post
  * - Display post details clearly
- * - Allow edit/delete only for owner
+ * - Allow edit/delete for the owner, moderators and admins (lib/permissions.ts)
+ * - Allow moderators to lock / reopen and pin it, admins to announce it
+ * - Allow the owner and moderators to move it to another topic
+ * - Let other logged-in users report it
  */
 const PostShow = async ({ postId }: PostShowProps) => {
   const session = await getServerSession(authOptions);
@@ -36,6 +59,11 @@ const PostShow = async ({ postId }: PostShowProps) => {
         select: { name: true },
       },
       topic: {
+        // slug for links, owner/moderators for permission checks
+        select: { slug: true, ...topicRolesSelect },
+      },
+      // Where it was moved from (shown in the meta line)
+      movedFrom: {
         select: { slug: true },
       },
     },
@@ -50,8 +78,24 @@ const PostShow = async ({ postId }: PostShowProps) => {
     );
   }
 
-  // Owner check
-  const isOwner = session?.user?.id === post.userId;
+  // Permission checks (see lib/permissions.ts)
+  const canEdit = can(session?.user, "edit", post);
+  const canDelete = can(session?.user, "delete", post);
+  const canLock = can(session?.user, "lock", post);
+  const canPin = can(session?.user, "pin", post);
+  const canAnnounce = can(session?.user, "announce", post);
+  const canMove = can(session?.user, "move", post);
+
+  // Topics the post can be moved to (only loaded for those who can move it)
+  const topicOptions = canMove ? await fetchTopicOptions() : [];
+
+  // Logged-in users can report posts they didn't write
+  const canReport = !!session?.user && session.user.id !== post.userId;
+
+  // Viewer's vote on this post
+  const viewerVotes = await fetchViewerVotes(session?.user?.id, {
+    postIds: [post.id],
+  });
 
   // Format date
   const createdAt = new Date(post.createdAt).toLocaleDateString("en-US", {
@@ -65,23 +109,60 @@ const PostShow = async ({ postId }: PostShowProps) => {
       {/* ===== HEADER ===== */}
       <header className="mb-6 space-y-2">
         <div className="flex items-start justify-between gap-4">
-          <h1 className="text-2xl font-semibold text-gray-900">
-            {post.title}
-          </h1>
-
-          {/* Owner actions */}
-          {isOwner && (
-            <div className="flex gap-2">
-              <PostEditForm
-                postId={post.id}
-                slug={post.topic.slug}
-                title={post.title}
-                content={post.content}
-              />
-              <PostDeleteButton
-                postId={post.id}
-                slug={post.topic.slug}
-              />
+          <div className="flex items-start gap-3">
+            <VoteControls
+              target={{ postId: post.id }}
+              score={post.score}
+              viewerVote={viewerVotes[post.id]}
+            />
+
+            <h1 className="text-2xl font-semibold text-gray-900">
+              {post.title}
+            </h1>
+          </div>
+
+          {/* Edit / move / lock / pin / delete actions (owner, moderators, admins), report */}
+          {(canEdit || canDelete || canLock || canPin || canAnnounce || canMove || canReport) && (
+            <div className="flex items-center gap-2">
+              {canEdit && (
+                <PostEditForm
+                  postId={post.id}
+                  slug={post.topic.slug}
+                  title={post.title}
+                  content={post.content}
+                />
+              )}
+              {canMove && (
+                <PostMoveForm
+                  postId={post.id}
+                  slug={post.topic.slug}
+                  topics={topicOptions}
+                />
+              )}
+              {canLock && (
+                <PostLockButton
+                  postId={post.id}
+                  closed={post.lockedAt !== null || post.archivedAt !== null}
+                />
+              )}
+              {(canPin || canAnnounce) && (
+                <PostPinButtons
+                  postId={post.id}
+                  pinned={post.pinnedAt !== null}
+                  announced={post.announcedAt !== null}
+                  canPin={canPin}
+                  canAnnounce={canAnnounce}
+                />
+              )}
+              {canDelete && (
+                <PostDeleteButton
+                  postId={post.id}
+                  slug={post.topic.slug}
+                />
+              )}
+              {canReport && (
+                <ReportButton target={{ postId: post.id }} label="post" />
+              )}
             </div>
           )}
         </div>
@@ -89,10 +170,22 @@ const PostShow = async ({ postId }: PostShowProps) => {
         {/* Meta info */}
         <div className="text-sm text-gray-500">
           Posted by{" "}
-          <span className="font-medium text-gray-700">
-            {post.user.name || "Anonymous"}
-          </span>{" "}
+          <UserLink
+            user={{ id: post.userId, name: post.user.name }}
+            className="font-medium text-gray-700"
+          />{" "}
           on {createdAt}
+          {post.movedAt && (
+            <>
+              {" "}
+              · moved{post.movedFrom ? ` from #${post.movedFrom.slug}` : ""} on{" "}
+              {new Date(post.movedAt).toLocaleDateString("en-US", {
+                year: "numeric",
+                month: "long",
+                day: "numeric",
+              })}
+            </>
+          )}
         </div>
       </header>
 
@@ -104,9 +197,7 @@ const PostShow = async ({ postId }: PostShowProps) => {
       </div>
 
       {/* ===== CONTENT ===== */}
-      <div className="prose max-w-none whitespace-pre-wrap text-gray-800">
-        {post.content}
-      </div>
+      <MarkdownContent content={post.content} />
     </article>
   );
 };
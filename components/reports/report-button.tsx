@@ -0,0 +1,147 @@
+// components/reports/report-button.tsx
+//
+// "Report" link on posts and comments.
+// Opens a dialog to pick a reason and add details for the moderators.
+// Shown to logged-in users on content they didn't write.
+
+"use client";
+
+// React 19+ hook for handling server action form state
+import { useActionState } from "react";
+
+// UI components
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+// Server action (and its form state type)
+import {
+  createReport,
+  type ReportFormState,
+  type ReportTarget,
+} from "@/app/action/report";
+import { REPORT_REASONS } from "@/app/action/report-reasons";
+
+/**
+ * Props
+ *
+ * target → { postId } or { commentId }
+ * label  → what is reported, for the dialog title ("post" / "comment")
+ */
+type ReportButtonProps = {
+  target: ReportTarget;
+  label: "post" | "comment";
+};
+
+/**
+ * ReportButton (Client Component)
+ *
+ * Responsibility:
+ * - Ask for a reason (and optional details)
+ * - Send the report through the server action
+ * - Confirm once the report is stored
+ */
+const ReportButton = ({ target, label }: ReportButtonProps) => {
+  /**
+   * Wrapper for the server action (binds the reported content)
+   */
+  const reportAction = (prevState: ReportFormState, formData: FormData) =>
+    createReport(target, prevState, formData);
+
+  const [formState, action, isPending] = useActionState(reportAction, {
+    errors: {},
+  });
+
+  return (
+    <Dialog>
+      {/* Report trigger */}
+      <DialogTrigger asChild>
+        <Button
+          size="sm"
+          variant="link"
+          className="px-0 text-sm text-gray-500"
+        >
+          Report
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Report {label}</DialogTitle>
+          <DialogDescription>
+            Moderators will review your report. You can follow its status on
+            your profile.
+          </DialogDescription>
+        </DialogHeader>
+
+        {formState.success ? (
+          /* Report stored */
+          <p className="rounded border border-green-300 bg-green-50 p-3 text-sm text-green-700">
+            Thanks - your report was sent to the moderators.
+          </p>
+        ) : (
+          <form action={action} className="space-y-4">
+            {/* Reason */}
+            <fieldset className="space-y-2">
+              <legend className="mb-1 text-sm font-medium">Reason</legend>
+              {REPORT_REASONS.map((reason) => (
+                <label
+                  key={reason.value}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <input type="radio" name="reason" value={reason.value} />
+                  {reason.label}
+                </label>
+              ))}
+              {formState.errors.reason && (
+                <p className="text-sm text-red-600">
+                  {formState.errors.reason}
+                </p>
+              )}
+            </fieldset>
+
+            {/* Details */}
+            <div className="space-y-1">
+              <Label htmlFor="report-details">Details (optional)</Label>
+              <Textarea
+                id="report-details"
+                name="details"
+                placeholder="Anything the moderators should know?"
+                rows={3}
+              />
+              {formState.errors.details && (
+                <p className="text-sm text-red-600">
+                  {formState.errors.details}
+                </p>
+              )}
+            </div>
+
+            {/* Form-level error */}
+            {formState.errors.formError && (
+              <div className="rounded border border-red-300 bg-red-50 p-2 text-sm text-red-700">
+                {formState.errors.formError}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? "Sending..." : "Send report"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportButton;
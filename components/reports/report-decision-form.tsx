@@ -0,0 +1,108 @@
+// components/reports/report-decision-form.tsx
+//
+// Decision buttons for one report in the moderation queue.
+// The optional note is shown to the reporter (and is the warning text
+// when the author is warned).
+
+"use client";
+
+// React 19+ hook for handling server action form state
+import { useActionState } from "react";
+
+// UI components
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+// Server action (and its form state type)
+import {
+  resolveReport,
+  type ReportDecisionFormState,
+} from "@/app/action/report";
+
+/**
+ * Props
+ *
+ * reportId → report to resolve
+ * canWarn  → false when the author's account is gone
+ */
+type ReportDecisionFormProps = {
+  reportId: string;
+  canWarn: boolean;
+};
+
+/**
+ * ReportDecisionForm (Client Component)
+ *
+ * Responsibility:
+ * - Dismiss the report, remove the content or warn the author
+ * - Show errors from the server
+ *
+ * The clicked button's value is sent as "decision".
+ */
+const ReportDecisionForm = ({ reportId, canWarn }: ReportDecisionFormProps) => {
+  /**
+   * Wrapper for the server action (binds the report)
+   */
+  const resolveAction = (
+    prevState: ReportDecisionFormState,
+    formData: FormData
+  ) => resolveReport(reportId, prevState, formData);
+
+  const [formState, action, isPending] = useActionState(resolveAction, {
+    errors: {},
+  });
+
+  return (
+    <form action={action} className="space-y-2">
+      <Textarea
+        name="note"
+        placeholder="Note for the reporter (optional)"
+        rows={2}
+      />
+      {formState.errors.note && (
+        <p className="text-sm text-red-600">{formState.errors.note}</p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          type="submit"
+          name="decision"
+          value="dismiss"
+          disabled={isPending}
+        >
+          Dismiss
+        </Button>
+        <Button
+          size="sm"
+          variant="secondary"
+          type="submit"
+          name="decision"
+          value="warn"
+          disabled={isPending || !canWarn}
+        >
+          Warn author
+        </Button>
+        <Button
+          size="sm"
+          variant="destructive"
+          type="submit"
+          name="decision"
+          value="remove"
+          disabled={isPending}
+        >
+          Remove content
+        </Button>
+      </div>
+
+      {formState.errors.formError && (
+        <div className="rounded border border-red-300 bg-red-50 p-2 text-sm text-red-700">
+          {formState.errors.formError}
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default ReportDecisionForm;
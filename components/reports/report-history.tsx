@@ -0,0 +1,104 @@
+// components/reports/report-history.tsx
+//
+// Reports a user has filed and the decision the moderators took on each.
+// Shown on the profile page.
+
+// Next.js Link
+import Link from "next/link";
+
+// Reports of one reporter + labels
+import { fetchReportsByReporter } from "@/lib/query/report";
+import {
+  reportReasonLabel,
+  reportStatusLabel,
+} from "@/app/action/report-reasons";
+
+// className helper
+import { cn } from "@/lib/utils";
+
+/**
+ * ReportHistory (Server Component)
+ *
+ * @param userId - Reporter
+ */
+const ReportHistory = async ({ userId }: { userId: string }) => {
+  const reports = await fetchReportsByReporter(userId);
+
+  if (reports.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        You haven&apos;t reported anything
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {reports.map((report) => {
+        const postId = report.post?.id ?? report.comment?.postId;
+        const href =
+          report.topic && postId
+            ? `/topic/${report.topic.slug}/posts/${postId}`
+            : null;
+
+        return (
+          <li key={report.id} className="rounded border bg-white p-3 text-sm">
+            <div className="flex items-center justify-between gap-3">
+              <span className="truncate text-gray-700">
+                {href ? (
+                  <Link href={href} className="hover:underline">
+                    {report.post?.title ?? report.snapshot}
+                  </Link>
+                ) : (
+                  report.snapshot
+                )}
+              </span>
+
+              {/* Decision */}
+              <span
+                className={cn(
+                  "shrink-0 rounded px-2 py-0.5 text-xs font-medium",
+                  report.status === "OPEN"
+                    ? "bg-gray-100 text-gray-600"
+                    : "bg-green-50 text-green-700"
+                )}
+              >
+                {reportStatusLabel(report.status)}
+              </span>
+            </div>
+
+            <p className="mt-1 text-xs text-gray-500">
+              {reportReasonLabel(report.reason)} · reported on{" "}
+              {new Date(report.createdAt).toLocaleDateString("en-US", {
+                year: "numeric",
+                month: "short",
+                day: "numeric",
+              })}
+              {report.resolvedAt && (
+                <>
+                  {" "}
+                  · handled on{" "}
+                  {new Date(report.resolvedAt).toLocaleDateString("en-US", {
+                    year: "numeric",
+                    month: "short",
+                    day: "numeric",
+                  })}
+                </>
+              )}
+            </p>
+
+            {/* Moderator's note */}
+            {report.resolution && (
+              <p className="mt-1 text-gray-600">
+                <span className="font-medium">Moderator:</span>{" "}
+                {report.resolution}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default ReportHistory;
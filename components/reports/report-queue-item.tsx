@@ -0,0 +1,100 @@
+// components/reports/report-queue-item.tsx
+//
+// One open report in the moderation queue: what was reported, by whom
+// and why, plus the decision form.
+
+// Next.js Link
+import Link from "next/link";
+
+// Decision buttons (client)
+import ReportDecisionForm from "./report-decision-form";
+import UserLink from "../users/user-link";
+
+// Report type + labels
+import type { QueueReport } from "@/lib/query/report";
+import { reportReasonLabel } from "@/app/action/report-reasons";
+
+/**
+ * Helper Function: contentHref
+ *
+ * Link to the reported content, or null once it is gone.
+ */
+const contentHref = (report: QueueReport): string | null => {
+  if (!report.topic) {
+    return null;
+  }
+  if (report.post) {
+    return `/topic/${report.topic.slug}/posts/${report.post.id}`;
+  }
+  if (report.comment && !report.comment.deletedAt) {
+    return `/topic/${report.topic.slug}/posts/${report.comment.postId}#comment-${report.comment.id}`;
+  }
+
+  return null;
+};
+
+/**
+ * ReportQueueItem (Server Component)
+ *
+ * The snapshot is the text at the time of the report - it is shown even
+ * when the author has edited or deleted the content since.
+ */
+const ReportQueueItem = ({ report }: { report: QueueReport }) => {
+  const href = contentHref(report);
+  // Both ids are cleared once the content is deleted for good
+  const kind = report.commentId ? "Comment" : report.postId ? "Post" : "Content";
+
+  return (
+    <li className="space-y-3 rounded border bg-white p-4">
+      {/* Meta info */}
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+        <span className="rounded bg-red-50 px-2 py-0.5 text-xs font-medium text-red-700">
+          {reportReasonLabel(report.reason)}
+        </span>
+        <span>
+          {kind} by{" "}
+          <UserLink
+            user={report.author}
+            className="font-medium text-gray-700"
+          />
+          {report.topic && <> in #{report.topic.slug}</>}
+        </span>
+        <span>·</span>
+        <span>
+          reported by <UserLink user={report.reporter} /> on{" "}
+          {new Date(report.createdAt).toLocaleDateString("en-US", {
+            year: "numeric",
+            month: "short",
+            day: "numeric",
+          })}
+        </span>
+      </div>
+
+      {/* Reported text */}
+      <blockquote className="line-clamp-6 whitespace-pre-wrap border-l-2 border-gray-200 pl-3 text-sm text-gray-700">
+        {report.snapshot}
+      </blockquote>
+
+      {href ? (
+        <Link href={href} className="text-sm text-blue-600 hover:underline">
+          View {kind.toLowerCase()}
+        </Link>
+      ) : (
+        <p className="text-sm italic text-gray-400">
+          The {kind.toLowerCase()} has been deleted
+        </p>
+      )}
+
+      {/* Reporter's details */}
+      {report.details && (
+        <p className="text-sm text-gray-600">
+          <span className="font-medium">Details:</span> {report.details}
+        </p>
+      )}
+
+      <ReportDecisionForm reportId={report.id} canWarn={!!report.author} />
+    </li>
+  );
+};
+
+export default ReportQueueItem;
@@ -0,0 +1,84 @@
+// components/search/search-filter-chips.tsx
+//
+// Active search filters shown as removable chips.
+// Each chip links to the same search without that filter.
+
+// Next.js Link
+import Link from "next/link";
+
+// Icons
+import { X } from "lucide-react";
+
+// Search syntax helpers
+import {
+  SEARCH_FILTER_KEYS,
+  formatSearchQuery,
+  type SearchFilterKey,
+} from "@/app/action/search-query";
+
+// Parsed search type
+import type { SearchFilters } from "@/lib/query/search";
+
+/**
+ * Human readable chip labels
+ */
+const FILTER_LABELS: Record<SearchFilterKey, string> = {
+  topic: "Topic",
+  author: "Author",
+  after: "After",
+  before: "Before",
+  type: "Only",
+};
+
+/**
+ * Props
+ *
+ * filters → current search
+ */
+type SearchFilterChipsProps = {
+  filters: SearchFilters;
+};
+
+/**
+ * SearchFilterChips (Server Component)
+ *
+ * Renders nothing when no filter is active.
+ */
+const SearchFilterChips = ({ filters }: SearchFilterChipsProps) => {
+  const active = SEARCH_FILTER_KEYS.filter((key) => filters[key]);
+
+  if (active.length === 0) {
+    return null;
+  }
+
+  /**
+   * Search URL without the given filter
+   */
+  const hrefWithout = (key: SearchFilterKey) => {
+    const query = formatSearchQuery({ ...filters, [key]: undefined });
+
+    // Removing the last filter of a text-less search leaves nothing to search
+    return query ? `/search?term=${encodeURIComponent(query)}` : "/search";
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {active.map((key) => (
+        <Link
+          key={key}
+          href={hrefWithout(key)}
+          aria-label={`Remove ${FILTER_LABELS[key].toLowerCase()} filter`}
+          className="inline-flex items-center gap-1 rounded-full border bg-gray-50 px-3 py-1 text-xs text-gray-700 hover:bg-gray-100"
+        >
+          <span className="font-medium">{FILTER_LABELS[key]}:</span>
+          <span>
+            {key === "type" ? `${filters[key]}s` : filters[key]}
+          </span>
+          <X className="h-3 w-3" />
+        </Link>
+      ))}
+    </div>
+  );
+};
+
+export default SearchFilterChips;
@@ -0,0 +1,118 @@
+// components/search/search-filters.tsx
+//
+// Filter form on the search page.
+// Every field maps to one filter of the search syntax
+// (topic:, author:, after:, before:, type:), so typing a filter into the
+// search box and picking it here give the same result.
+
+// UI components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// Server action - merges the fields into the query and redirects
+import { search } from "@/app/action/search";
+
+// Parsed search type
+import type { SearchFilters as SearchFiltersValue } from "@/lib/query/search";
+
+/**
+ * Props
+ *
+ * filters → current search (prefills the fields)
+ */
+type SearchFiltersProps = {
+  filters: SearchFiltersValue;
+};
+
+/**
+ * SearchFilters (Server Component)
+ *
+ * Plain form posting to the search action - no client JS needed.
+ * Clearing a field removes that filter.
+ */
+const SearchFilters = ({ filters }: SearchFiltersProps) => {
+  return (
+    <form
+      action={search}
+      className="grid gap-3 rounded border bg-white p-4 sm:grid-cols-2"
+    >
+      {/* Free text */}
+      <div className="space-y-1 sm:col-span-2">
+        <Label htmlFor="search-term">Text</Label>
+        <Input
+          id="search-term"
+          name="term"
+          defaultValue={filters.text}
+          placeholder='Words or "exact phrase"'
+        />
+      </div>
+
+      {/* Topic slug */}
+      <div className="space-y-1">
+        <Label htmlFor="search-topic">Topic</Label>
+        <Input
+          id="search-topic"
+          name="topic"
+          defaultValue={filters.topic || ""}
+          placeholder="javascript"
+        />
+      </div>
+
+      {/* Author name */}
+      <div className="space-y-1">
+        <Label htmlFor="search-author">Author</Label>
+        <Input
+          id="search-author"
+          name="author"
+          defaultValue={filters.author || ""}
+          placeholder="Author name"
+        />
+      </div>
+
+      {/* Date range */}
+      <div className="space-y-1">
+        <Label htmlFor="search-after">Created after</Label>
+        <Input
+          id="search-after"
+          name="after"
+          type="date"
+          defaultValue={filters.after || ""}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="search-before">Created before</Label>
+        <Input
+          id="search-before"
+          name="before"
+          type="date"
+          defaultValue={filters.before || ""}
+        />
+      </div>
+
+      {/* Posts vs comments */}
+      <div className="space-y-1">
+        <Label htmlFor="search-type">Show</Label>
+        <select
+          id="search-type"
+          name="type"
+          defaultValue={filters.type || ""}
+          className="h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs"
+        >
+          <option value="">Posts and comments</option>
+          <option value="post">Posts only</option>
+          <option value="comment">Comments only</option>
+        </select>
+      </div>
+
+      <div className="flex items-end justify-end">
+        <Button type="submit" size="sm">
+          Apply filters
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default SearchFilters;
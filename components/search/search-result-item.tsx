@@ -0,0 +1,117 @@
+// components/search/search-result-item.tsx
+//
+// A single search hit (post or comment) with highlighted matches.
+
+// Next.js Link
+import Link from "next/link";
+
+// UI components
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+
+// Snippets are Markdown too (matched words become <mark>)
+import MarkdownContent from "@/components/markdown/markdown-content";
+
+// Author name → public profile
+import UserLink from "@/components/users/user-link";
+
+// Search result type + highlight markers
+import {
+  HIGHLIGHT_START,
+  HIGHLIGHT_END,
+  type SearchResult,
+} from "@/lib/query/search";
+
+/**
+ * Highlighted
+ *
+ * Renders a plain-text title from ts_headline, wrapping the marked words in <mark>.
+ * The text is split on the markers, so no HTML from the database is
+ * ever injected into the page.
+ *
+ * "a \u0002react\u0003 hook" → ["a \u0002react", " hook"] → "a ", <mark>react</mark>, " hook"
+ */
+const Highlighted = ({ text }: { text: string }) => {
+  const parts = text.split(HIGHLIGHT_END);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        const [before, match] = part.split(HIGHLIGHT_START);
+
+        return (
+          <span key={index}>
+            {before}
+            {match && (
+              <mark className="rounded bg-yellow-100 px-0.5">{match}</mark>
+            )}
+          </span>
+        );
+      })}
+    </>
+  );
+};
+
+/**
+ * Props
+ *
+ * result → search hit to show
+ */
+type SearchResultItemProps = {
+  result: SearchResult;
+};
+
+/**
+ * SearchResultItem
+ *
+ * Displays one search hit as a clickable card (the title link covers it,
+ * the author link sits above it).
+ * Comment hits link straight to the comment on the post page.
+ */
+const SearchResultItem = ({ result }: SearchResultItemProps) => {
+  const postUrl = `/topic/${result.slug}/posts/${result.postId}`;
+  const href =
+    result.type === "comment" ? `${postUrl}#comment-${result.id}` : postUrl;
+
+  return (
+    <Card className="relative border bg-white hover:bg-gray-50">
+      <CardHeader className="space-y-1">
+        {/* Title (the commented post for comment hits) */}
+        <CardTitle className="text-base font-medium text-gray-900">
+          <Link href={href} className="after:absolute after:inset-0">
+            {result.type === "comment" && (
+              <span className="mr-2 text-xs font-normal text-gray-500">
+                Comment on
+              </span>
+            )}
+            <Highlighted text={result.title} />
+          </Link>
+        </CardTitle>
+
+        {/* Excerpt around the matches */}
+        {result.snippet && (
+          <MarkdownContent
+            content={result.snippet}
+            highlights
+            className="text-sm text-gray-700"
+          />
+        )}
+
+        {/* Meta */}
+        <CardDescription className="flex justify-between text-xs text-gray-500">
+          <UserLink
+            user={{ id: result.authorId, name: result.authorName }}
+            className="relative z-10"
+          />
+          <span>{result.slug}</span>
+        </CardDescription>
+      </CardHeader>
+    </Card>
+  );
+};
+
+export default SearchResultItem;
@@ -0,0 +1,65 @@
+// components/topic/topic-about.tsx
+//
+// Sidebar boxes with a topic's rules and links (set by the topic owner).
+
+// Markdown body (sanitized on the server)
+import MarkdownContent from "@/components/markdown/markdown-content";
+
+// Icons
+import { ExternalLink } from "lucide-react";
+
+/**
+ * Props
+ *
+ * rules → topic rules (Markdown, optional)
+ * links → sidebar links in display order
+ */
+type TopicAboutProps = {
+  rules: string | null;
+  links: { id: string; label: string; url: string }[];
+};
+
+/**
+ * TopicAbout (Server Component)
+ *
+ * Renders nothing when the topic has neither rules nor links.
+ */
+const TopicAbout = ({ rules, links }: TopicAboutProps) => {
+  if (!rules && links.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      {rules && (
+        <div className="rounded-lg border bg-white p-4">
+          <h2 className="mb-2 text-sm font-semibold text-gray-900">Rules</h2>
+          <MarkdownContent content={rules} className="text-sm" />
+        </div>
+      )}
+
+      {links.length > 0 && (
+        <div className="rounded-lg border bg-white p-4">
+          <h2 className="mb-2 text-sm font-semibold text-gray-900">Links</h2>
+          <ul className="space-y-1">
+            {links.map((link) => (
+              <li key={link.id}>
+                <a
+                  href={link.url}
+                  target="_blank"
+                  rel="noopener noreferrer nofollow"
+                  className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                >
+                  {link.label}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default TopicAbout;
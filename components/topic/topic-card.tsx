@@ -2,20 +2,33 @@
 //
 // This component renders a single discussion topic as a clickable card.
 // It is used inside TopicList (sidebar / topic navigation).
+// Shows the topic's icon and display name, with its color as accent.
 
 // Next.js Link for client-side navigation
 // Faster than normal <a> tag and supports prefetching
 import Link from "next/link";
 
+// Topic color enum generated from prisma/schema.prisma
+import type { TopicColor } from "@prisma/client";
+
+// Display name + color classes
+import { TOPIC_COLORS, topicDisplayName } from "./topic-style";
+
 /**
  * Props definition for TopicCard
  *
  * slug        → URL-friendly topic name (used in route)
  * description → Short explanation of the topic
+ * name        → Display name (falls back to the slug)
+ * icon        → Emoji shown before the name (optional)
+ * color       → Color accent
  */
 type TopicCardProps = {
   slug: string;
   description: string;
+  name: string | null;
+  icon: string | null;
+  color: TopicColor;
 };
 
 /**
@@ -30,25 +43,35 @@ type TopicCardProps = {
  * - No event handlers
  * - Pure UI rendering
  */
-const TopicCard = ({ slug, description }: TopicCardProps) => {
+const TopicCard = ({
+  slug,
+  description,
+  name,
+  icon,
+  color,
+}: TopicCardProps) => {
   return (
     // Entire card is clickable
     <Link href={`/topic/${slug}`} className="block">
       <div
-        className="
+        className={`
           rounded-md
           border
+          border-l-4
+          ${TOPIC_COLORS[color].border}
           bg-white
           px-3
           py-2
           transition
           hover:bg-gray-50
-          hover:border-gray-300
-        "
+        `}
       >
         {/* Topic title */}
-        <p className="text-sm font-medium text-gray-900 capitalize">
-          {slug}
+        <p className="flex items-center gap-1 text-sm font-medium text-gray-900">
+          {icon && <span aria-hidden>{icon}</span>}
+          <span className={name ? undefined : "capitalize"}>
+            {topicDisplayName({ slug, name })}
+          </span>
         </p>
 
         {/* Topic description */}
@@ -84,6 +84,10 @@ const TopicList = async () => {
           slug={topic.slug}
           // description - topic description
           description={topic.description}
+          // name, icon, color - how the topic presents itself
+          name={topic.name}
+          icon={topic.icon}
+          color={topic.color}
         />
       ))}
     </div>
@@ -0,0 +1,479 @@
+// components/topic/topic-manage-panel.tsx
+//
+// Management panel for a topic (opened from the topic page sidebar).
+// Shown to the topic owner, its moderators, site moderators and admins.
+// Editing the topic's details, renaming and deleting it show up only for
+// those allowed to (owner and staff - see lib/permissions.ts).
+// Removing posts and comments happens on the post page itself - the
+// delete buttons there already show up for these users.
+
+"use client";
+
+// React hooks
+// useActionState -> connects the forms to their Server Actions
+// useTransition  -> pending state while a moderator is removed
+import { useActionState, useTransition } from "react";
+
+// UI components
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+
+// Icons
+import { Settings, X } from "lucide-react";
+
+// Next.js Link (moderation queue)
+import Link from "next/link";
+
+// Moderator names → public profile
+import UserLink from "@/components/users/user-link";
+
+// Server Actions (and their form state types)
+import {
+  updateTopicDescription,
+  updateTopicDetails,
+  appointTopicModerator,
+  removeTopicModerator,
+  renameTopic,
+  deleteTopic,
+  type TopicDescriptionFormState,
+  type TopicDetailsFormState,
+  type AppointModeratorFormState,
+  type RenameTopicFormState,
+  type DeleteTopicFormState,
+} from "@/app/action/manage-topic";
+
+// Topic color enum + color picker labels
+import type { TopicColor } from "@prisma/client";
+import { TOPIC_COLORS } from "./topic-style";
+
+/**
+ * Props
+ *
+ * slug        → topic being managed
+ * description → current description (prefilled)
+ * moderators  → current topic moderators (the owner isn't listed)
+ * details     → display name, icon, color, rules and links (prefilled)
+ * canEdit     → viewer may edit the details and rename the topic
+ * canDelete   → viewer may delete the topic
+ * canRemoveModerators → viewer may remove moderators (owner, site staff)
+ */
+type TopicManagePanelProps = {
+  slug: string;
+  description: string;
+  moderators: { userId: string; name: string | null }[];
+  details: {
+    name: string | null;
+    icon: string | null;
+    color: TopicColor;
+    rules: string | null;
+    links: { label: string; url: string }[];
+  };
+  canEdit: boolean;
+  canDelete: boolean;
+  canRemoveModerators: boolean;
+};
+
+/**
+ * TopicManagePanel (Client Component)
+ *
+ * Responsibility:
+ * - Edit the topic description
+ * - Appoint moderators (by name or email)
+ * - Remove moderators
+ * - Edit the display name, icon, color, rules and sidebar links
+ * - Rename the topic (old links keep working) or delete it
+ */
+const TopicManagePanel = ({
+  slug,
+  description,
+  moderators,
+  details,
+  canEdit,
+  canDelete,
+  canRemoveModerators,
+}: TopicManagePanelProps) => {
+  /**
+   * Wrappers for the server actions (bind the topic slug)
+   */
+  const updateDescriptionAction = (
+    prevState: TopicDescriptionFormState,
+    formData: FormData
+  ) => updateTopicDescription(slug, prevState, formData);
+
+  const appointModeratorAction = (
+    prevState: AppointModeratorFormState,
+    formData: FormData
+  ) => appointTopicModerator(slug, prevState, formData);
+
+  const detailsAction = (
+    prevState: TopicDetailsFormState,
+    formData: FormData
+  ) => updateTopicDetails(slug, prevState, formData);
+
+  const renameAction = (
+    prevState: RenameTopicFormState,
+    formData: FormData
+  ) => renameTopic(slug, prevState, formData);
+
+  const deleteAction = (
+    prevState: DeleteTopicFormState,
+    formData: FormData
+  ) => deleteTopic(slug, prevState, formData);
+
+  const [descriptionState, descriptionFormAction] = useActionState(
+    updateDescriptionAction,
+    { errors: {} }
+  );
+
+  const [appointState, appointFormAction] = useActionState(
+    appointModeratorAction,
+    { errors: {} }
+  );
+
+  const [detailsState, detailsFormAction, isSavingDetails] = useActionState(
+    detailsAction,
+    { errors: {} }
+  );
+
+  const [renameState, renameFormAction, isRenaming] = useActionState(
+    renameAction,
+    { errors: {} }
+  );
+
+  const [deleteState, deleteFormAction, isDeleting] = useActionState(
+    deleteAction,
+    { errors: {} }
+  );
+
+  const [isRemoving, startTransition] = useTransition();
+
+  /**
+   * Remove a moderator (the list refreshes through revalidatePath)
+   */
+  const handleRemove = (userId: string) => {
+    startTransition(async () => {
+      try {
+        await removeTopicModerator(slug, userId);
+      } catch {
+        // Nothing to undo - the list simply stays as it was
+      }
+    });
+  };
+
+  return (
+    <Dialog>
+      {/* Trigger button shown in sidebar */}
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full gap-1">
+          <Settings className="h-4 w-4" />
+          Manage topic
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Manage #{slug}</DialogTitle>
+          <DialogDescription>
+            Moderators can remove posts and comments in this topic from the
+            post page, handle reports in the{" "}
+            <Link href="/mod/queue" className="text-blue-600 hover:underline">
+              moderation queue
+            </Link>{" "}
+            and ban users from the topic on the{" "}
+            <Link href="/mod/bans" className="text-blue-600 hover:underline">
+              bans page
+            </Link>
+            .
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* ===== DESCRIPTION ===== */}
+        <form action={descriptionFormAction} className="space-y-2">
+          <Label htmlFor="topic-description">Description</Label>
+          <Textarea
+            id="topic-description"
+            name="description"
+            defaultValue={description}
+            rows={3}
+          />
+
+          {descriptionState.errors.description && (
+            <p className="text-sm text-red-600">
+              {descriptionState.errors.description}
+            </p>
+          )}
+          {descriptionState.errors.formError && (
+            <div className="rounded border border-red-300 bg-red-50 p-2 text-sm text-red-700">
+              {descriptionState.errors.formError}
+            </div>
+          )}
+
+          <div className="flex items-center justify-end gap-3">
+            {descriptionState.success && (
+              <span className="text-sm text-green-600">Saved</span>
+            )}
+            <Button size="sm" type="submit">
+              Save description
+            </Button>
+          </div>
+        </form>
+
+        <Separator />
+
+        {/* ===== MODERATORS ===== */}
+        <div className="space-y-3">
+          <Label>Moderators</Label>
+
+          {moderators.length === 0 ? (
+            <p className="text-sm text-gray-500">No moderators yet</p>
+          ) : (
+            <ul className="space-y-1">
+              {moderators.map((moderator) => (
+                <li
+                  key={moderator.userId}
+                  className="flex items-center justify-between rounded border px-3 py-1 text-sm"
+                >
+                  <UserLink
+                    user={{ id: moderator.userId, name: moderator.name }}
+                  />
+                  {canRemoveModerators && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={isRemoving}
+                      onClick={() => handleRemove(moderator.userId)}
+                      aria-label={`Remove ${moderator.name || "moderator"}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Appoint a new moderator */}
+          <form action={appointFormAction} className="flex gap-2">
+            <Input name="user" placeholder="Name or email" />
+            <Button size="sm" type="submit" variant="secondary">
+              Appoint
+            </Button>
+          </form>
+
+          {appointState.errors.user && (
+            <p className="text-sm text-red-600">{appointState.errors.user}</p>
+          )}
+          {appointState.errors.formError && (
+            <div className="rounded border border-red-300 bg-red-50 p-2 text-sm text-red-700">
+              {appointState.errors.formError}
+            </div>
+          )}
+        </div>
+
+        {/* ===== DETAILS ===== */}
+        {canEdit && (
+          <>
+            <Separator />
+
+            <form action={detailsFormAction} className="space-y-3">
+              <div className="grid grid-cols-[1fr_5rem] gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="topic-display-name">Display name</Label>
+                  <Input
+                    id="topic-display-name"
+                    name="name"
+                    defaultValue={details.name ?? ""}
+                    placeholder={slug}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="topic-icon">Icon</Label>
+                  <Input
+                    id="topic-icon"
+                    name="icon"
+                    defaultValue={details.icon ?? ""}
+                    placeholder="💬"
+                  />
+                </div>
+              </div>
+              {detailsState.errors.name && (
+                <p className="text-sm text-red-600">
+                  {detailsState.errors.name}
+                </p>
+              )}
+              {detailsState.errors.icon && (
+                <p className="text-sm text-red-600">
+                  {detailsState.errors.icon}
+                </p>
+              )}
+
+              <div className="space-y-1">
+                <Label htmlFor="topic-color">Color</Label>
+                <select
+                  id="topic-color"
+                  name="color"
+                  defaultValue={details.color}
+                  className="h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs"
+                >
+                  {Object.entries(TOPIC_COLORS).map(([value, color]) => (
+                    <option key={value} value={value}>
+                      {color.label}
+                    </option>
+                  ))}
+                </select>
+                {detailsState.errors.color && (
+                  <p className="text-sm text-red-600">
+                    {detailsState.errors.color}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="topic-rules">Rules (Markdown)</Label>
+                <Textarea
+                  id="topic-rules"
+                  name="rules"
+                  defaultValue={details.rules ?? ""}
+                  rows={4}
+                />
+                {detailsState.errors.rules && (
+                  <p className="text-sm text-red-600">
+                    {detailsState.errors.rules}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="topic-links">Sidebar links</Label>
+                <p className="text-xs text-gray-500">
+                  One per line: Label https://example.com
+                </p>
+                <Textarea
+                  id="topic-links"
+                  name="links"
+                  defaultValue={details.links
+                    .map((link) => `${link.label} ${link.url}`)
+                    .join("\n")}
+                  rows={3}
+                />
+                {detailsState.errors.links && (
+                  <p className="text-sm text-red-600">
+                    {detailsState.errors.links}
+                  </p>
+                )}
+              </div>
+
+              {detailsState.errors.formError && (
+                <div className="rounded border border-red-300 bg-red-50 p-2 text-sm text-red-700">
+                  {detailsState.errors.formError}
+                </div>
+              )}
+
+              <div className="flex items-center justify-end gap-3">
+                {detailsState.success && (
+                  <span className="text-sm text-green-600">Saved</span>
+                )}
+                <Button size="sm" type="submit" disabled={isSavingDetails}>
+                  Save details
+                </Button>
+              </div>
+            </form>
+          </>
+        )}
+
+        {/* ===== RENAME ===== */}
+        {canEdit && (
+          <>
+            <Separator />
+
+            <form action={renameFormAction} className="space-y-2">
+              <Label htmlFor="topic-name">Name</Label>
+              <p className="text-xs text-gray-500">
+                Links to /topic/{slug} keep working and lead to the new name.
+              </p>
+              <div className="flex gap-2">
+                <Input id="topic-name" name="name" defaultValue={slug} />
+                <Button
+                  size="sm"
+                  type="submit"
+                  variant="secondary"
+                  disabled={isRenaming}
+                >
+                  Rename
+                </Button>
+              </div>
+
+              {renameState.errors.name && (
+                <p className="text-sm text-red-600">
+                  {renameState.errors.name}
+                </p>
+              )}
+              {renameState.errors.formError && (
+                <div className="rounded border border-red-300 bg-red-50 p-2 text-sm text-red-700">
+                  {renameState.errors.formError}
+                </div>
+              )}
+            </form>
+          </>
+        )}
+
+        {/* ===== DELETE ===== */}
+        {canDelete && (
+          <>
+            <Separator />
+
+            <form action={deleteFormAction} className="space-y-2">
+              <Label htmlFor="topic-delete-confirm" className="text-red-700">
+                Delete topic
+              </Label>
+              <p className="text-xs text-gray-500">
+                Deletes the topic with all its posts and comments. This cannot
+                be undone. Type <span className="font-mono">{slug}</span> to
+                confirm.
+              </p>
+              <div className="flex gap-2">
+                <Input
+                  id="topic-delete-confirm"
+                  name="confirm"
+                  autoComplete="off"
+                />
+                <Button
+                  size="sm"
+                  type="submit"
+                  variant="destructive"
+                  disabled={isDeleting}
+                >
+                  Delete
+                </Button>
+              </div>
+
+              {deleteState.errors.confirm && (
+                <p className="text-sm text-red-600">
+                  {deleteState.errors.confirm}
+                </p>
+              )}
+              {deleteState.errors.formError && (
+                <div className="rounded border border-red-300 bg-red-50 p-2 text-sm text-red-700">
+                  {deleteState.errors.formError}
+                </div>
+              )}
+            </form>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TopicManagePanel;
@@ -0,0 +1,45 @@
+// components/topic/topic-style.ts
+//
+// How a topic presents itself: display name and color accent.
+// Plain module (no server-only code) so cards, the topic header and the
+// management panel share it.
+// Class names are written out in full so Tailwind picks them up.
+
+// Topic color enum generated from prisma/schema.prisma
+import type { TopicColor } from "@prisma/client";
+
+/**
+ * Classes for each color accent
+ *
+ * - label  → name in the color picker
+ * - badge  → icon / slug badge background + text
+ * - border → accent border (cards, header)
+ */
+export const TOPIC_COLORS: Record<
+  TopicColor,
+  { label: string; badge: string; border: string }
+> = {
+  GRAY: { label: "Gray", badge: "bg-gray-100 text-gray-700", border: "border-l-gray-300" },
+  RED: { label: "Red", badge: "bg-red-100 text-red-800", border: "border-l-red-400" },
+  ORANGE: { label: "Orange", badge: "bg-orange-100 text-orange-800", border: "border-l-orange-400" },
+  AMBER: { label: "Amber", badge: "bg-amber-100 text-amber-800", border: "border-l-amber-400" },
+  GREEN: { label: "Green", badge: "bg-green-100 text-green-800", border: "border-l-green-500" },
+  TEAL: { label: "Teal", badge: "bg-teal-100 text-teal-800", border: "border-l-teal-500" },
+  SKY: { label: "Sky", badge: "bg-sky-100 text-sky-800", border: "border-l-sky-400" },
+  BLUE: { label: "Blue", badge: "bg-blue-100 text-blue-800", border: "border-l-blue-500" },
+  VIOLET: { label: "Violet", badge: "bg-violet-100 text-violet-800", border: "border-l-violet-500" },
+  PINK: { label: "Pink", badge: "bg-pink-100 text-pink-800", border: "border-l-pink-400" },
+};
+
+/**
+ * Helper Function: topicDisplayName
+ *
+ * @param topic - Topic with its slug and (optional) display name
+ * @returns string - The display name, or the slug for topics without one
+ */
+export const topicDisplayName = (topic: {
+  slug: string;
+  name?: string | null;
+}): string => {
+  return topic.name || topic.slug;
+};
@@ -0,0 +1,69 @@
+// components/topic/topic-team.tsx
+//
+// Sidebar box listing who runs a topic (owner + moderators).
+
+// UI components
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+
+// Name → public profile
+import UserLink from "@/components/users/user-link";
+
+// Topic team type
+import type { TopicTeam as TopicTeamData } from "@/lib/query/topic";
+
+/**
+ * Props
+ *
+ * team → owner and moderators of the topic
+ */
+type TopicTeamProps = {
+  team: TopicTeamData;
+};
+
+/**
+ * One person in the list
+ */
+const Member = ({
+  user,
+  label,
+}: {
+  user: { id: string; name: string | null; image: string | null };
+  label: string;
+}) => (
+  <li className="flex items-center gap-2 text-sm">
+    <Avatar className="h-6 w-6">
+      <AvatarImage src={user.image || ""} />
+      <AvatarFallback>{user.name?.[0]?.toUpperCase() || "A"}</AvatarFallback>
+    </Avatar>
+    <UserLink user={user} className="text-gray-800" />
+    <span className="text-xs text-gray-400">{label}</span>
+  </li>
+);
+
+/**
+ * TopicTeam (Server Component)
+ *
+ * Renders nothing for old topics without owner or moderators.
+ */
+const TopicTeam = ({ team }: TopicTeamProps) => {
+  if (!team.owner && team.moderators.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg border bg-white p-4">
+      <h2 className="mb-3 text-sm font-semibold text-gray-900">
+        Moderators
+      </h2>
+
+      <ul className="space-y-2">
+        {team.owner && <Member user={team.owner} label="owner" />}
+        {team.moderators.map((moderator) => (
+          <Member key={moderator.userId} user={moderator.user} label="mod" />
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TopicTeam;
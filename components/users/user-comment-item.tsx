@@ -0,0 +1,60 @@
+// components/users/user-comment-item.tsx
+//
+// One comment on a user's profile: the post it was written on,
+// when, its score and the (rendered) comment.
+
+// Next.js Link
+import Link from "next/link";
+
+// Rendered Markdown (sanitized on the server)
+import MarkdownContent from "@/components/markdown/markdown-content";
+
+// Comment type, mentions resolved for the whole page
+import type { UserComment } from "@/lib/query/comment";
+import type { MentionLinks } from "@/lib/query/user";
+
+/**
+ * UserCommentItem (Server Component)
+ *
+ * @param comment - Comment with its post
+ * @param mentions - Users @mentioned on this page of comments
+ */
+const UserCommentItem = ({
+  comment,
+  mentions,
+}: {
+  comment: UserComment;
+  mentions: MentionLinks;
+}) => {
+  return (
+    <li className="space-y-1 rounded border bg-white p-4 text-sm">
+      <p className="text-gray-500">
+        On{" "}
+        <Link
+          href={`/topic/${comment.post.topic.slug}/posts/${comment.post.id}#comment-${comment.id}`}
+          className="font-medium text-gray-900 hover:underline"
+        >
+          {comment.post.title}
+        </Link>{" "}
+        in #{comment.post.topic.slug}
+      </p>
+
+      <MarkdownContent
+        content={comment.content}
+        mentions={mentions}
+        className="line-clamp-4"
+      />
+
+      <p className="text-xs text-gray-400">
+        {new Date(comment.createdAt).toLocaleDateString("en-US", {
+          year: "numeric",
+          month: "short",
+          day: "numeric",
+        })}{" "}
+        · {comment.score} {Math.abs(comment.score) === 1 ? "point" : "points"}
+      </p>
+    </li>
+  );
+};
+
+export default UserCommentItem;
@@ -0,0 +1,43 @@
+// components/users/user-link.tsx
+//
+// A user's name linking to their public profile (/users/[id]).
+// Has no server-only code, so it renders in server and client components.
+
+// Next.js Link
+import Link from "next/link";
+
+// className helper
+import { cn } from "@/lib/utils";
+
+/**
+ * Props
+ *
+ * user      → who to link to (null = account is gone, plain text)
+ * fallback  → shown without a user or name
+ * className → styles of the name (e.g. font weight, color)
+ */
+type UserLinkProps = {
+  user: { id: string; name: string | null } | null;
+  fallback?: string;
+  className?: string;
+};
+
+/**
+ * UserLink
+ */
+const UserLink = ({ user, fallback = "Anonymous", className }: UserLinkProps) => {
+  if (!user) {
+    return <span className={className}>{fallback}</span>;
+  }
+
+  return (
+    <Link
+      href={`/users/${user.id}`}
+      className={cn("hover:underline", className)}
+    >
+      {user.name || fallback}
+    </Link>
+  );
+};
+
+export default UserLink;
@@ -0,0 +1,123 @@
+// components/votes/vote-controls.tsx
+//
+// Upvote / downvote arrows with the current score.
+// Used on post cards, the post page and comments.
+
+"use client";
+
+// React hooks
+// useState      -> local copy of score + vote (updates without reload)
+// useTransition -> pending state while the server action runs
+import { useState, useTransition } from "react";
+
+// Icons
+import { ChevronDown, ChevronUp } from "lucide-react";
+
+// className helper
+import { cn } from "@/lib/utils";
+
+// Server action to cast / switch / remove a vote
+import { toggleVote, type VoteTarget } from "@/app/action/vote";
+
+/**
+ * Props
+ *
+ * target      → { postId } or { commentId }
+ * score       → current cached score
+ * viewerVote  → the viewer's vote (1, -1 or 0 for none)
+ * orientation → "vertical" for posts, "horizontal" for comments
+ */
+type VoteControlsProps = {
+  target: VoteTarget;
+  score: number;
+  viewerVote?: number;
+  orientation?: "vertical" | "horizontal";
+};
+
+/**
+ * VoteControls (Client Component)
+ *
+ * Responsibility:
+ * - Show score and the viewer's current vote
+ * - Toggle votes through the server action
+ *
+ * Why client component?
+ * - Handles clicks
+ * - Keeps score in local state for instant feedback
+ */
+const VoteControls = ({
+  target,
+  score,
+  viewerVote = 0,
+  orientation = "vertical",
+}: VoteControlsProps) => {
+  // Latest known score + vote (from server after each click)
+  const [state, setState] = useState({ score, vote: viewerVote });
+
+  // Disables the arrows while a vote is being saved
+  const [isPending, startTransition] = useTransition();
+
+  /**
+   * Send a vote to the server
+   * The server decides whether it is a new vote, a switch or a removal
+   */
+  const handleVote = (value: 1 | -1) => {
+    startTransition(async () => {
+      try {
+        setState(await toggleVote(target, value));
+      } catch {
+        // Keep the previous state if the vote failed
+      }
+    });
+  };
+
+  return (
+    <div
+      className={cn(
+        "flex items-center text-gray-500",
+        orientation === "vertical" ? "flex-col" : "flex-row gap-1"
+      )}
+    >
+      {/* Upvote */}
+      <button
+        type="button"
+        aria-label="Upvote"
+        onClick={() => handleVote(1)}
+        disabled={isPending}
+        className={cn(
+          "rounded p-0.5 hover:bg-gray-100 disabled:opacity-50",
+          state.vote === 1 && "text-orange-600"
+        )}
+      >
+        <ChevronUp className="h-4 w-4" />
+      </button>
+
+      {/* Score */}
+      <span
+        className={cn(
+          "min-w-5 text-center text-xs font-semibold",
+          state.vote === 1 && "text-orange-600",
+          state.vote === -1 && "text-blue-600"
+        )}
+      >
+        {state.score}
+      </span>
+
+      {/* Downvote */}
+      <button
+        type="button"
+        aria-label="Downvote"
+        onClick={() => handleVote(-1)}
+        disabled={isPending}
+        className={cn(
+          "rounded p-0.5 hover:bg-gray-100 disabled:opacity-50",
+          state.vote === -1 && "text-blue-600"
+        )}
+      >
+        <ChevronDown className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+export default VoteControls;
@@ -0,0 +1,115 @@
+// lib/audit.ts
+//
+// Audit log of moderator and admin actions.
+// Entries are append-only: the database rejects updates and deletes
+// (see the audit_log migration), so the log can't be rewritten later.
+//
+// What gets recorded:
+// - Deleting or editing someone else's post or comment, moving someone else's post
+// - Topic changes (description, name, moderators) and topic deletion
+// - Report decisions (dismiss, warn)
+// - Bans and suspensions (and lifting them)
+// - Locking, pinning and announcing posts
+// Actions on your own content are not moderation and are not recorded.
+
+// Import Prisma types (JSON snapshots)
+import type { Prisma } from "@prisma/client";
+
+// Import Prisma client instance
+// prisma - database client for querying the database
+import { prisma } from "@/lib";
+
+/**
+ * Recorded actions, with the labels shown in the audit log viewer
+ */
+export const AUDIT_ACTIONS = {
+    "post.delete": "Post deleted",
+    "post.edit": "Post edited",
+    "post.lock": "Post locked",
+    "post.unlock": "Post reopened",
+    "post.pin": "Post pinned",
+    "post.unpin": "Post unpinned",
+    "post.announce": "Announcement posted",
+    "post.unannounce": "Announcement removed",
+    "post.move": "Post moved",
+    "comment.delete": "Comment deleted",
+    "comment.edit": "Comment edited",
+    "topic.update": "Topic updated",
+    "topic.rename": "Topic renamed",
+    "topic.delete": "Topic deleted",
+    "topic.moderator.add": "Moderator appointed",
+    "topic.moderator.remove": "Moderator removed",
+    "report.dismiss": "Report dismissed",
+    "user.warn": "User warned",
+    "user.ban": "User banned",
+    "user.unban": "Ban lifted"
+} as const;
+
+/**
+ * TypeScript Type: AuditAction
+ *
+ * One of the recorded actions ("post.delete", "user.warn", ...)
+ */
+export type AuditAction = keyof typeof AUDIT_ACTIONS;
+
+/**
+ * Kinds of things an entry can be about
+ */
+export const AUDIT_TARGET_TYPES = ["post", "comment", "topic", "user", "report"] as const;
+
+/**
+ * TypeScript Type: AuditTargetType
+ *
+ * One of "post", "comment", "topic", "user", "report"
+ */
+export type AuditTargetType = (typeof AUDIT_TARGET_TYPES)[number];
+
+/**
+ * TypeScript Type: AuditEntry
+ *
+ * - actor: Who did it (session.user) - the name is copied, so it survives renames
+ * - target: What it was done to
+ * - before / after: Snapshots of the changed fields (omit what doesn't apply)
+ * - reason: Why (moderator's note, report reason, ...)
+ */
+export type AuditEntry = {
+    actor: { id: string; name?: string | null };
+    action: AuditAction;
+    targetType: AuditTargetType;
+    targetId: string;
+    before?: Prisma.InputJsonValue;
+    after?: Prisma.InputJsonValue;
+    reason?: string | null;
+}
+
+/**
+ * Helper Function: isAuditAction
+ *
+ * @param value - Value to check (e.g. from the URL)
+ * @returns boolean - true for a known action
+ */
+export const isAuditAction = (value: string): value is AuditAction => {
+    return Object.hasOwn(AUDIT_ACTIONS, value);
+}
+
+/**
+ * Function: recordAudit
+ *
+ * Appends one entry to the audit log.
+ *
+ * @param entry - Who did what to which target, and why
+ */
+export const recordAudit = async (entry: AuditEntry) => {
+    await prisma.auditLog.create({
+        data: {
+            actorId: entry.actor.id,
+            actorName: entry.actor.name ?? null,
+            action: entry.action,
+            targetType: entry.targetType,
+            targetId: entry.targetId,
+            before: entry.before,
+            after: entry.after,
+            reason: entry.reason || null
+        }
+    });
+}
@@ -42,6 +42,20 @@ if (!process.env.GITHUB_CLIENT_ID || !process.env.GITHUB_CLIENT_SECRET) {
   throw new Error("Missing GitHub client id or secret");
 }
 
+/**
+ * Admin Email List
+ * 
+ * Comma separated list of email addresses, e.g.
+ * ADMIN_EMAILS=alice@example.com,bob@example.com
+ * 
+ * Emails are compared case-insensitively.
+ * If the variable is missing, nobody is promoted automatically.
+ */
+const adminEmails = (process.env.ADMIN_EMAILS || "")
+  .split(",")
+  .map((email) => email.trim().toLowerCase())
+  .filter(Boolean);
+
 /**
  * NextAuth Configuration
  * 
@@ -109,9 +123,10 @@ export const authOptions: NextAuthOptions = {
      * Modifies the session object before it's returned to the client.
      * 
      * What we do:
-     * - Add user.id to session.user
+     * - Add user.id and user.role to session.user
      * - By default, NextAuth doesn't include user.id in session
      * - We need it for database operations (creating posts, comments, etc.)
+     * - role decides what the user may do (see lib/permissions.ts)
      * 
      * @param session - Current session object
      * @param user - User object from database
@@ -124,12 +139,34 @@ export const authOptions: NextAuthOptions = {
         // @ts-ignore - TypeScript doesn't know about this property by default
         // We've extended the type in types/next-auth.d.ts
         session.user.id = user.id;
+
+        // Add user.role to session.user (used by lib/permissions.ts)
+        session.user.role = user.role ?? "MEMBER";
       }
       // Return the modified session
       return session;
     },
   },
 
+  /**
+   * Events
+   *
+   * signIn event:
+   * - Runs after every successful sign in
+   * - Promotes users listed in ADMIN_EMAILS to ADMIN, so a fresh
+   *   install has someone who can appoint moderators
+   */
+  events: {
+    async signIn({ user }) {
+      if (user.email && adminEmails.includes(user.email.toLowerCase()) && user.role !== "ADMIN") {
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { role: "ADMIN" },
+        });
+      }
+    },
+  },
+
   /**
    * Security Secret
    * 
@@ -0,0 +1,88 @@
+// lib/bans.ts
+//
+// Ban and suspension checks.
+// Server actions that write content ask `findActiveBan()` before saving.
+//
+// - Ban        → no expiresAt, lasts until a moderator lifts it
+// - Suspension → ends by itself at expiresAt
+// - Site-wide (no topicId) restrictions block every write,
+//   topic restrictions only writes in that topic
+
+// Import Prisma types
+import type { Prisma } from "@prisma/client";
+
+// Import Prisma client instance
+// prisma - database client for querying the database
+import { prisma } from "@/lib";
+
+/**
+ * Condition for bans that are in force right now
+ * (not lifted, and permanent or not yet expired)
+ */
+export const activeBanWhere = (): Prisma.BanWhereInput => ({
+    liftedAt: null,
+    OR: [
+        { expiresAt: null },
+        { expiresAt: { gt: new Date() } }
+    ]
+});
+
+/**
+ * TypeScript Type: ActiveBan
+ *
+ * What describeBan needs to explain a restriction
+ */
+export type ActiveBan = {
+    reason: string;
+    expiresAt: Date | null;
+    topic: { slug: string } | null;
+};
+
+/**
+ * Function: findActiveBan
+ *
+ * Finds the restriction that stops a user from writing.
+ * Site-wide restrictions win over topic ones.
+ *
+ * @param userId - User trying to write
+ * @param topicId - Topic they write in (omit for site-wide actions like creating topics)
+ * @returns Promise<ActiveBan | null> - The restriction, or null if they may write
+ */
+export const findActiveBan = async (userId: string, topicId?: string): Promise<ActiveBan | null> => {
+    return prisma.ban.findFirst({
+        where: {
+            userId,
+            ...activeBanWhere(),
+            AND: [{ OR: [{ topicId: null }, ...(topicId ? [{ topicId }] : [])] }]
+        },
+        select: {
+            reason: true,
+            expiresAt: true,
+            topic: { select: { slug: true } }
+        },
+        // nulls (site-wide) first
+        orderBy: { topicId: { sort: "asc", nulls: "first" } }
+    });
+}
+
+/**
+ * Function: describeBan
+ *
+ * Message shown when a write is refused (and on the profile).
+ *
+ * Examples:
+ *   "You are banned: Spam"
+ *   "You are suspended from #javascript until Mar 3, 2027: Flame wars"
+ *
+ * @param ban - Active restriction
+ * @returns string - Readable explanation
+ */
+export const describeBan = (ban: ActiveBan): string => {
+    const kind = ban.expiresAt ? "suspended" : "banned";
+    const scope = ban.topic ? ` from #${ban.topic.slug}` : "";
+    const until = ban.expiresAt
+        ? ` until ${ban.expiresAt.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })}`
+        : "";
+
+    return `You are ${kind}${scope}${until}: ${ban.reason}`;
+}
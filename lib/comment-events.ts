@@ -0,0 +1,58 @@
+// lib/comment-events.ts
+//
+// Live comment events of a post (new comments, edits, deletions),
+// streamed to the post page by /api/posts/[postId]/comments/stream.
+// Events only say what changed - the page re-renders the comments
+// itself, so nothing here bypasses the normal permission checks.
+
+// Publish/subscribe (in-process by default)
+import { getPubSub } from "@/lib/pubsub";
+
+/**
+ * TypeScript Type: CommentEvent
+ *
+ * - type: What happened to the comment
+ * - commentId / parentId: The comment and what it replies to (null = top level)
+ * - actorId: Who did it (their own page is already up to date)
+ */
+export type CommentEvent = {
+    type: "created" | "updated" | "deleted";
+    commentId: string;
+    parentId: string | null;
+    actorId: string;
+}
+
+/**
+ * Channel of one post's comment events
+ */
+const commentChannel = (postId: string) => `post:${postId}:comments`;
+
+/**
+ * Function: publishCommentEvent
+ *
+ * Live updates are best effort: the change is saved already,
+ * so a failed publish must not fail the action.
+ *
+ * @param postId - Post the comment belongs to
+ * @param event - What happened
+ */
+export const publishCommentEvent = async (postId: string, event: CommentEvent) => {
+    try {
+        await getPubSub().publish(commentChannel(postId), JSON.stringify(event));
+    } catch {
+        // Viewers see the change on their next reload instead
+    }
+}
+
+/**
+ * Function: subscribeToComments
+ *
+ * @param postId - Post to follow
+ * @param listener - Called with every event of that post
+ * @returns () => void - Stops listening
+ */
+export const subscribeToComments = (postId: string, listener: (event: CommentEvent) => void) => {
+    return getPubSub().subscribe(commentChannel(postId), (message) => {
+        listener(JSON.parse(message) as CommentEvent);
+    });
+}
@@ -0,0 +1,129 @@
+// lib/content.ts
+//
+// Removal of posts and comments, shared by the delete actions and the
+// moderation queue. Permission checks and cache revalidation stay with
+// the caller - these helpers only change the database (and record
+// removals of other people's content in the audit log).
+
+// Import Prisma client instance
+// prisma - database client for querying the database
+import { prisma } from "@/lib";
+
+// Cleanup routine - removes tombstones without replies
+import { purgeDeletedComments } from "@/lib/jobs/purge-comments";
+
+// Audit log (moderation removals)
+import { recordAudit, type AuditEntry } from "@/lib/audit";
+
+// Live updates for people viewing the post
+import { publishCommentEvent } from "@/lib/comment-events";
+
+/**
+ * TypeScript Type: RemovedBy
+ *
+ * Who removes the content and why (the reason ends up in the audit log)
+ */
+export type RemovedBy = {
+    actor: AuditEntry["actor"];
+    reason?: string | null;
+}
+
+/**
+ * Function: removeComment
+ *
+ * Turns a comment into a "[deleted]" tombstone.
+ *
+ * Flow:
+ * 1. Drop the edit history (it would still expose the deleted text)
+ * 2. Clear the content and mark the comment as deleted
+ *    The row itself stays, so its children keep their parent
+ * 3. Purge tombstones of this post that have no replies
+ * 4. Tell viewers of the post (live update)
+ * 5. Record the removal when it isn't the author's own comment
+ *
+ * @param comment - Comment to remove (id + postId)
+ * @param by - Acting user and reason
+ */
+export const removeComment = async (comment: { id: string; postId: string }, by: RemovedBy) => {
+    // Text before removal (for the audit log)
+    const before = await prisma.comment.findUniqueOrThrow({
+        where: { id: comment.id },
+        select: { userId: true, content: true, parentId: true }
+    });
+
+    // $transaction - both writes succeed or neither does
+    await prisma.$transaction([
+        prisma.commentRevision.deleteMany({
+            where: { commentId: comment.id }
+        }),
+        prisma.comment.update({
+            where: { id: comment.id },
+            data: {
+                content: '',
+                deletedAt: new Date()
+            }
+        })
+    ]);
+
+    // A tombstone without replies has nothing left to hold together
+    // Purge it right away (and any parent tombstones it leaves childless)
+    await purgeDeletedComments(comment.postId);
+
+    await publishCommentEvent(comment.postId, {
+        type: "deleted",
+        commentId: comment.id,
+        parentId: before.parentId,
+        actorId: by.actor.id
+    });
+
+    if (before.userId !== by.actor.id) {
+        await recordAudit({
+            actor: by.actor,
+            action: "comment.delete",
+            targetType: "comment",
+            targetId: comment.id,
+            before: { userId: before.userId, content: before.content, postId: comment.postId },
+            reason: by.reason
+        });
+    }
+}
+
+/**
+ * Function: removePost
+ *
+ * Deletes a post for good.
+ * Its comments and votes go with it (cascade delete from schema).
+ * Removing someone else's post is recorded in the audit log.
+ *
+ * @param postId - Post to remove
+ * @param by - Acting user and reason
+ */
+export const removePost = async (postId: string, by: RemovedBy) => {
+    // delete returns the removed row - its last state goes into the audit log
+    const post = await prisma.post.delete({
+        where: { id: postId },
+        select: {
+            id: true,
+            userId: true,
+            title: true,
+            content: true,
+            topic: { select: { slug: true } }
+        }
+    });
+
+    if (post.userId !== by.actor.id) {
+        await recordAudit({
+            actor: by.actor,
+            action: "post.delete",
+            targetType: "post",
+            targetId: post.id,
+            before: {
+                userId: post.userId,
+                topic: post.topic.slug,
+                title: post.title,
+                content: post.content
+            },
+            reason: by.reason
+        });
+    }
+}
@@ -0,0 +1,179 @@
+// lib/email/templates.ts
+//
+// Email templates for notifications: one email per notification
+// (IMMEDIATE) and a digest of unread notifications (DAILY / WEEKLY).
+// Every template returns both a plain-text and an HTML version.
+// User-written text is escaped - nothing is rendered as Markdown.
+
+// Import Prisma types
+import type { EmailFrequency } from "@prisma/client";
+
+// Notification with actor, post and comment
+import type { InboxNotification } from "@/lib/query/notification";
+
+// Shared wording (same as the inbox)
+import {
+    NOTIFICATION_DESCRIPTIONS,
+    notificationExcerpt,
+    notificationPath
+} from "@/lib/notification-text";
+
+// Message shape
+import type { EmailMessage } from "./transport";
+
+/**
+ * Helper Function: siteUrl
+ *
+ * Emails need absolute links - NEXTAUTH_URL is the site's address.
+ *
+ * @param path - Path on the site ("/notifications")
+ * @returns string - Absolute URL
+ */
+const siteUrl = (path: string): string => {
+    const base = (process.env.NEXTAUTH_URL || "http://localhost:3000").replace(/\/+$/, "");
+
+    return `${base}${path}`;
+}
+
+/**
+ * Helper Function: escapeHtml
+ *
+ * @param value - Text (names, titles, comments)
+ * @returns string - Safe to put into HTML
+ */
+const escapeHtml = (value: string): string => {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
+
+/**
+ * Where the recipient changes their email settings
+ */
+const SETTINGS_PATH = "/profile#email-notifications";
+
+/**
+ * Helper Function: layout
+ *
+ * Shared HTML frame (inline styles - mail clients ignore stylesheets)
+ *
+ * @param heading - Title at the top
+ * @param body - HTML content
+ * @returns string - Complete HTML document
+ */
+const layout = (heading: string, body: string): string => {
+    return `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,sans-serif;color:#111827">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #e5e7eb;border-radius:8px;padding:24px">
+      <h1 style="margin:0 0 16px;font-size:18px">${escapeHtml(heading)}</h1>
+      ${body}
+      <p style="margin:24px 0 0;font-size:12px;color:#6b7280">
+        You get these emails because of your
+        <a href="${siteUrl(SETTINGS_PATH)}" style="color:#6b7280">notification settings</a>.
+      </p>
+    </div>
+  </body>
+</html>`;
+}
+
+/**
+ * Helper Function: summary
+ *
+ * @param notification - Notification to describe
+ * @returns string - "Jane commented on your post Hello world"
+ */
+const summary = (notification: InboxNotification): string => {
+    return `${notification.actor?.name || "Someone"} ${NOTIFICATION_DESCRIPTIONS[notification.type]} ${notification.post.title}`;
+}
+
+/**
+ * Helper Function: notificationHtml
+ *
+ * @param notification - Notification to show
+ * @returns string - HTML block with the summary, excerpt and link
+ */
+const notificationHtml = (notification: InboxNotification): string => {
+    const excerpt = notificationExcerpt(notification.comment);
+
+    return `<div style="margin:0 0 16px">
+        <p style="margin:0">
+          <strong>${escapeHtml(notification.actor?.name || "Someone")}</strong>
+          ${escapeHtml(NOTIFICATION_DESCRIPTIONS[notification.type])}
+          <a href="${siteUrl(notificationPath(notification))}" style="color:#2563eb">${escapeHtml(notification.post.title)}</a>
+        </p>
+        ${excerpt ? `<p style="margin:4px 0 0;color:#4b5563">${escapeHtml(excerpt)}</p>` : ""}
+      </div>`;
+}
+
+/**
+ * Helper Function: notificationText
+ *
+ * @param notification - Notification to show
+ * @returns string - Plain-text block with the summary, excerpt and link
+ */
+const notificationText = (notification: InboxNotification): string => {
+    const excerpt = notificationExcerpt(notification.comment);
+
+    return [
+        summary(notification),
+        ...(excerpt ? [`"${excerpt}"`] : []),
+        siteUrl(notificationPath(notification))
+    ].join("\n");
+}
+
+/**
+ * Template: notificationEmail
+ *
+ * One notification, sent right away (IMMEDIATE).
+ *
+ * @param to - Recipient's address
+ * @param notification - The new notification
+ * @returns EmailMessage - Ready to send
+ */
+export const notificationEmail = (to: string, notification: InboxNotification): EmailMessage => {
+    return {
+        to,
+        subject: summary(notification),
+        text: `${notificationText(notification)}\n\nNotification settings: ${siteUrl(SETTINGS_PATH)}\n`,
+        html: layout("New notification", notificationHtml(notification))
+    };
+}
+
+/**
+ * Template: digestEmail
+ *
+ * Unread notifications collected since the last digest (DAILY / WEEKLY).
+ *
+ * @param to - Recipient's address
+ * @param frequency - DAILY or WEEKLY (wording only)
+ * @param notifications - Notifications shown, newest first
+ * @param total - All unread notifications (more than shown → "and N more")
+ * @returns EmailMessage - Ready to send
+ */
+export const digestEmail = (
+    to: string,
+    frequency: EmailFrequency,
+    notifications: InboxNotification[],
+    total: number
+): EmailMessage => {
+    const heading = `Your ${frequency === "WEEKLY" ? "weekly" : "daily"} digest: ${total} unread ${total === 1 ? "notification" : "notifications"}`;
+    const more = total - notifications.length;
+    const inbox = siteUrl("/notifications");
+
+    return {
+        to,
+        subject: heading,
+        text: [
+            heading,
+            ...notifications.map(notificationText),
+            ...(more > 0 ? [`...and ${more} more: ${inbox}`] : []),
+            `Notification settings: ${siteUrl(SETTINGS_PATH)}`
+        ].join("\n\n") + "\n",
+        html: layout(heading, `${notifications.map(notificationHtml).join("\n      ")}
+      <p style="margin:0"><a href="${inbox}" style="color:#2563eb">${more > 0 ? `…and ${more} more in your inbox` : "Open your inbox"}</a></p>`)
+    };
+}
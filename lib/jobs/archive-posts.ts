@@ -0,0 +1,61 @@
+// lib/jobs/archive-posts.ts
+//
+// Archives posts nobody has touched for a while.
+// Archived posts stay readable, but take no new comments
+// (a moderator can reopen them from the post page).
+
+// Import Prisma client instance
+// prisma - database client for querying the database
+import { prisma } from "@/lib";
+
+/**
+ * Default inactivity period before a post is archived (days)
+ */
+export const DEFAULT_ARCHIVE_AFTER_DAYS = 180;
+
+/**
+ * Helper Function: archiveAfterDays
+ *
+ * Reads ARCHIVE_AFTER_DAYS from the environment.
+ * 0 turns auto-archiving off; missing or invalid values use the default.
+ *
+ * @returns number - Days of inactivity before a post is archived
+ */
+export const archiveAfterDays = (): number => {
+    const value = process.env.ARCHIVE_AFTER_DAYS?.trim();
+
+    if (!value) {
+        return DEFAULT_ARCHIVE_AFTER_DAYS;
+    }
+
+    const days = Number(value);
+
+    return Number.isInteger(days) && days >= 0 ? days : DEFAULT_ARCHIVE_AFTER_DAYS;
+}
+
+/**
+ * Job: archiveInactivePosts
+ *
+ * Archives every open post without a new comment for `days` days.
+ *
+ * @param days - Inactivity period (defaults to ARCHIVE_AFTER_DAYS)
+ * @returns Promise<number> - Number of archived posts
+ */
+export const archiveInactivePosts = async (days = archiveAfterDays()): Promise<number> => {
+    // Auto-archiving is turned off
+    if (days === 0) {
+        return 0;
+    }
+
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const { count } = await prisma.post.updateMany({
+        where: {
+            archivedAt: null,
+            lastActivityAt: { lt: cutoff }
+        },
+        data: { archivedAt: new Date() }
+    });
+
+    return count;
+}
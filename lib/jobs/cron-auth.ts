@@ -0,0 +1,19 @@
+// lib/jobs/cron-auth.ts
+//
+// Authorization of the scheduled endpoints under /api/cron.
+
+/**
+ * Function: isAuthorizedCron
+ *
+ * Vercel Cron sends "Authorization: Bearer <CRON_SECRET>".
+ * Requests without the correct secret are rejected so nobody
+ * else can trigger the jobs (and none run while CRON_SECRET is unset).
+ *
+ * @param request - Incoming cron request
+ * @returns boolean - true if the request carries the cron secret
+ */
+export const isAuthorizedCron = (request: Request): boolean => {
+    const authorization = request.headers.get("authorization");
+
+    return !!process.env.CRON_SECRET && authorization === `Bearer ${process.env.CRON_SECRET}`;
+}
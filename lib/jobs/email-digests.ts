@@ -0,0 +1,118 @@
+// lib/jobs/email-digests.ts
+//
+// Emails digests of unread notifications to users who chose
+// DAILY or WEEKLY email notifications (see the profile page).
+// Notifications already emailed (IMMEDIATE, or an earlier digest) and
+// notifications read in the meantime are left out.
+
+// Import Prisma types
+import type { EmailFrequency } from "@prisma/client";
+
+// Import Prisma client instance
+// prisma - database client for querying the database
+import { prisma } from "@/lib";
+
+// Email
+import { inboxNotificationSelect } from "@/lib/query/notification";
+import { getEmailTransport } from "@/lib/email/transport";
+import { digestEmail } from "@/lib/email/templates";
+
+/**
+ * Most notifications listed in one digest (the rest are counted)
+ */
+export const DIGEST_SIZE = 20;
+
+/**
+ * Days between two digests
+ */
+const DIGEST_INTERVAL_DAYS: Partial<Record<EmailFrequency, number>> = {
+    DAILY: 1,
+    WEEKLY: 7
+};
+
+/**
+ * The job runs once a day, never at exactly the same second -
+ * a digest an hour early still counts as due
+ */
+const SLACK_MS = 60 * 60 * 1000;
+
+/**
+ * Job: sendEmailDigests
+ *
+ * Flow (per user with a due DAILY / WEEKLY digest and unread, un-emailed notifications):
+ * 1. Collect the newest notifications (at most DIGEST_SIZE) and count all of them
+ * 2. Render and send the digest
+ * 3. Mark the collected notifications as emailed and remember the digest time
+ * A failed send leaves everything as it was - the next run tries again.
+ *
+ * @param now - Time of this run
+ * @returns Promise<{ sent, failed }> - Number of digests sent / failed
+ */
+export const sendEmailDigests = async (now = new Date()): Promise<{ sent: number; failed: number }> => {
+    const unsent = { readAt: null, emailedAt: null };
+
+    const users = await prisma.user.findMany({
+        where: {
+            emailFrequency: { in: ["DAILY", "WEEKLY"] },
+            notifications: { some: unsent }
+        },
+        select: { id: true, email: true, emailFrequency: true, lastDigestAt: true }
+    });
+
+    const due = users.filter((user) => {
+        const days = DIGEST_INTERVAL_DAYS[user.emailFrequency];
+
+        return days !== undefined && (
+            !user.lastDigestAt ||
+            now.getTime() - user.lastDigestAt.getTime() >= days * 24 * 60 * 60 * 1000 - SLACK_MS
+        );
+    });
+
+    if (due.length === 0) {
+        return { sent: 0, failed: 0 };
+    }
+
+    const transport = getEmailTransport();
+    let sent = 0;
+    let failed = 0;
+
+    for (const user of due) {
+        // Notifications arriving while this digest is sent go into the next one
+        const where = { userId: user.id, ...unsent, createdAt: { lte: now } };
+
+        const notifications = await prisma.notification.findMany({
+            where,
+            select: inboxNotificationSelect,
+            orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+            take: DIGEST_SIZE
+        });
+        const total = await prisma.notification.count({ where });
+
+        if (total === 0) {
+            continue;
+        }
+
+        try {
+            await transport.send(digestEmail(user.email, user.emailFrequency, notifications, total));
+        } catch (error: unknown) {
+            console.error(`Failed to send the digest of user ${user.id}:`, error);
+            failed++;
+            continue;
+        }
+
+        // $transaction - marked as emailed and digest time saved together
+        await prisma.$transaction([
+            prisma.notification.updateMany({
+                where,
+                data: { emailedAt: now }
+            }),
+            prisma.user.update({
+                where: { id: user.id },
+                data: { lastDigestAt: now }
+            })
+        ]);
+        sent++;
+    }
+
+    return { sent, failed };
+}
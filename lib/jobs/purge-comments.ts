@@ -0,0 +1,47 @@
+// lib/jobs/purge-comments.ts
+//
+// Cleanup routine for soft-deleted comments.
+// A deleted comment stays as a "[deleted]" tombstone while it still has replies.
+// Once no replies are left, the tombstone is useless and gets removed for good.
+
+// Import Prisma client instance
+// prisma - database client for querying the database
+import { prisma } from "@/lib";
+
+/**
+ * Job: purgeDeletedComments
+ *
+ * Permanently removes tombstones that have no children.
+ *
+ * Why a loop?
+ * - Removing a childless tombstone can leave its parent tombstone childless
+ * - Each pass removes one "layer" of tombstones from the bottom of the tree
+ * - We stop as soon as a pass removes nothing
+ *
+ * @param postId - Optional: only clean up comments of this post
+ * @returns Promise<number> - Total number of purged comments
+ */
+export const purgeDeletedComments = async (postId?: string): Promise<number> => {
+    let purged = 0;
+
+    while (true) {
+        // deleteMany - removes all matching rows in one query
+        const { count } = await prisma.comment.deleteMany({
+            where: {
+                // Only limit to one post when postId is given
+                ...(postId ? { postId } : {}),
+                deletedAt: { not: null },  // Only tombstones
+                children: { none: {} }     // ...that have no replies left
+            }
+        });
+
+        // Nothing left to purge
+        if (count === 0) {
+            break;
+        }
+
+        purged += count;
+    }
+
+    return purged;
+}
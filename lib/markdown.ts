@@ -0,0 +1,243 @@
+// lib/markdown.ts
+//
+// Server-side Markdown rendering for posts, comments and search snippets.
+//
+// Pipeline (unified):
+//   Markdown → mdast (remark-parse + GitHub flavoured extras)
+//   → hast (remark-rehype, raw HTML in the Markdown is dropped)
+//   → sanitize (rehype-sanitize, GitHub's allow-list - no scripts,
+//     no event handlers, no javascript: links)
+//   → syntax highlighting for ``` code fences (rehype-highlight)
+//   → @mentions of existing users become profile links (not in code)
+//   → HTML string
+//
+// Highlighting runs after sanitizing, so its classes are never
+// something a user could inject.
+
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkRehype from "remark-rehype";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeHighlight from "rehype-highlight";
+import rehypeStringify from "rehype-stringify";
+import type { ElementContent, Root } from "hast";
+
+// Search highlight markers (added by ts_headline)
+import { HIGHLIGHT_START, HIGHLIGHT_END } from "./query/search";
+
+// @mentions
+import { MENTION_PATTERN, trimHandle } from "./mentions";
+import { resolveMentionLinks, type MentionLinks } from "./query/user";
+
+/**
+ * Helper Function: splitHighlights
+ *
+ * Turns text between the search highlight markers into <mark> elements.
+ * "a \u0002react\u0003 hook" → "a ", <mark>react</mark>, " hook"
+ *
+ * @param nodes - hast nodes to walk
+ * @returns ElementContent[] - Same nodes with marks added
+ */
+const splitHighlights = (nodes: ElementContent[]): ElementContent[] =>
+    nodes.flatMap((node): ElementContent[] => {
+        if (node.type === "element") {
+            node.children = splitHighlights(node.children);
+            return [node];
+        }
+
+        if (node.type !== "text" || !node.value.includes(HIGHLIGHT_START)) {
+            return [node];
+        }
+
+        return node.value.split(HIGHLIGHT_END).flatMap((part): ElementContent[] => {
+            const [before, match] = part.split(HIGHLIGHT_START);
+            const parts: ElementContent[] = [];
+
+            if (before) {
+                parts.push({ type: "text", value: before });
+            }
+            if (match) {
+                parts.push({
+                    type: "element",
+                    tagName: "mark",
+                    properties: {},
+                    children: [{ type: "text", value: match }]
+                });
+            }
+
+            return parts;
+        });
+    });
+
+/**
+ * Plugin: rehypeSearchHighlights
+ *
+ * Only used for search snippets - regular content never gets marks.
+ */
+const rehypeSearchHighlights = () => (tree: Root) => {
+    tree.children = splitHighlights(tree.children as ElementContent[]);
+}
+
+/**
+ * Plugin: rehypeUserLinks
+ *
+ * Links in user content get rel="nofollow ugc" (no SEO credit for spam)
+ * and open in a new tab without access to this page.
+ *
+ * Snippets (unwrap: true) sit inside a result card that is a link itself,
+ * so their links become plain text instead (no nested <a>).
+ */
+const rehypeUserLinks = ({ unwrap = false }: { unwrap?: boolean } = {}) => (tree: Root) => {
+    const visit = (nodes: ElementContent[]) => {
+        for (const node of nodes) {
+            if (node.type !== "element") {
+                continue;
+            }
+
+            if (node.tagName === "a" && unwrap) {
+                node.tagName = "span";
+                node.properties = {};
+            } else if (node.tagName === "a") {
+                node.properties.rel = ["nofollow", "ugc", "noopener", "noreferrer"];
+                node.properties.target = "_blank";
+            }
+
+            visit(node.children);
+        }
+    };
+
+    visit(tree.children as ElementContent[]);
+}
+
+/**
+ * Helper Function: linkMentions
+ *
+ * Turns @handles of known users into links to their profile.
+ * "hi @Jane_Doe!" → "hi ", <a href="/users/…">@Jane_Doe</a>, "!"
+ * Code and existing links are left alone.
+ *
+ * @param nodes - hast nodes to walk
+ * @param users - Lowercased handle → user id
+ * @returns ElementContent[] - Same nodes with mention links added
+ */
+const linkMentions = (nodes: ElementContent[], users: MentionLinks): ElementContent[] =>
+    nodes.flatMap((node): ElementContent[] => {
+        if (node.type === "element") {
+            if (!["a", "code", "pre"].includes(node.tagName)) {
+                node.children = linkMentions(node.children, users);
+            }
+            return [node];
+        }
+
+        if (node.type !== "text" || !node.value.includes("@")) {
+            return [node];
+        }
+
+        const parts: ElementContent[] = [];
+        let text = "";
+        let last = 0;
+
+        for (const match of node.value.matchAll(MENTION_PATTERN)) {
+            const handle = trimHandle(match[2]);
+            const userId = users.get(handle.toLowerCase());
+
+            if (!userId) {
+                continue;
+            }
+
+            // Text up to the "@" (including the character before it)
+            const start = match.index + match[1].length;
+            text += node.value.slice(last, start);
+            if (text) {
+                parts.push({ type: "text", value: text });
+            }
+
+            parts.push({
+                type: "element",
+                tagName: "a",
+                properties: { href: `/users/${userId}`, className: ["mention"] },
+                children: [{ type: "text", value: `@${handle}` }]
+            });
+
+            text = "";
+            last = start + 1 + handle.length;
+        }
+
+        text += node.value.slice(last);
+        if (text) {
+            parts.push({ type: "text", value: text });
+        }
+
+        return parts;
+    });
+
+/**
+ * Plugin: rehypeMentions
+ *
+ * Only added when the content mentions known users (see renderMarkdown).
+ * Runs after rehypeUserLinks, so profile links stay in this tab.
+ */
+const rehypeMentions = (users: MentionLinks) => (tree: Root) => {
+    tree.children = linkMentions(tree.children as ElementContent[], users);
+}
+
+/**
+ * Processors
+ *
+ * Built once and reused for every render.
+ * The snippet processor also turns search highlight markers into <mark>
+ * and unwraps links.
+ */
+const contentProcessor = unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkRehype)
+    .use(rehypeSanitize)
+    .use(rehypeHighlight)
+    .use(rehypeUserLinks)
+    .use(rehypeStringify)
+    .freeze();
+
+const snippetProcessor = unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkRehype)
+    .use(rehypeSanitize)
+    .use(rehypeHighlight)
+    .use(rehypeSearchHighlights)
+    .use(rehypeUserLinks, { unwrap: true })
+    .use(rehypeStringify)
+    .freeze();
+
+/**
+ * Function: renderMarkdown
+ *
+ * Renders user-written Markdown to sanitized HTML.
+ * The result is safe to pass to dangerouslySetInnerHTML.
+ * Mentions of known users link to their profile (not in search snippets -
+ * those sit inside a link already).
+ *
+ * @param content - Markdown written by a user
+ * @param options.highlights - true for search snippets (marks matched words)
+ * @param options.mentions - Mentions resolved up front (a whole comment thread,
+ *                           see resolveMentionLinks); looked up for this content when missing
+ * @returns Promise<string> - Sanitized HTML
+ */
+export const renderMarkdown = async (
+    content: string,
+    { highlights = false, mentions }: { highlights?: boolean; mentions?: MentionLinks } = {}
+): Promise<string> => {
+    if (highlights) {
+        return String(await snippetProcessor.process(content));
+    }
+
+    const users = mentions ?? await resolveMentionLinks([content]);
+
+    // A copy of the shared processor with the known mentions
+    const processor = users.size > 0
+        ? contentProcessor().use(rehypeMentions, users)
+        : contentProcessor;
+
+    return String(await processor.process(content));
+}
@@ -0,0 +1,120 @@
+// lib/mentions.ts
+//
+// @mentions in posts and comments.
+// A mention is "@" + the user's name with spaces (and any other character
+// a handle can't hold) written as underscores ("Jane O'Neil" → @Jane_O_Neil),
+// matched case-insensitively.
+// Names shared by several users can't be mentioned (nobody is notified).
+// Mentions inside code (``` blocks, `inline code`) and links don't count.
+
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import type { Nodes } from "mdast";
+
+/**
+ * Most mentions taken from one text (more are ignored)
+ */
+export const MAX_MENTIONS = 20;
+
+/**
+ * "@" at the start or after a non-word character (so emails don't count),
+ * then letters, digits, "_", "." or "-"
+ * Group 1 is the character before the "@", group 2 the handle
+ * (use with matchAll / replace - the pattern is global).
+ */
+export const MENTION_PATTERN = /(^|[^\p{L}\p{N}_])@([\p{L}\p{N}_.-]+)/gu;
+
+/**
+ * Helper Function: trimHandle
+ *
+ * Trailing dots and hyphens are punctuation, not part of the handle
+ * ("thanks @Jane_Doe." → "Jane_Doe").
+ *
+ * @param handle - Matched handle
+ * @returns string - Handle without trailing punctuation (may be empty)
+ */
+export const trimHandle = (handle: string): string => {
+    return handle.replace(/[.-]+$/, "");
+}
+
+/**
+ * Markdown parser (text nodes only - nothing is rendered)
+ */
+const parser = unified().use(remarkParse).use(remarkGfm).freeze();
+
+/**
+ * Helper Function: collectText
+ *
+ * Text of a Markdown tree outside code and links.
+ *
+ * @param node - mdast node
+ * @param texts - Collected text values (appended to)
+ * @returns string[] - The same array
+ */
+const collectText = (node: Nodes, texts: string[] = []): string[] => {
+    if (node.type === "text") {
+        texts.push(node.value);
+    } else if ("children" in node && node.type !== "link" && node.type !== "linkReference") {
+        // code / inlineCode / html have a value, not children - they are skipped
+        for (const child of node.children) {
+            collectText(child, texts);
+        }
+    }
+
+    return texts;
+}
+
+/**
+ * Helper Function: mentionHandle
+ *
+ * Characters MENTION_PATTERN doesn't accept become "_", so every handle
+ * can be typed and matched back to its user.
+ *
+ * @param name - User name ("Jane O'Neil")
+ * @returns string - What to type after "@" to mention them ("Jane_O_Neil"; may be empty)
+ */
+export const mentionHandle = (name: string): string => {
+    return trimHandle(name.trim().replace(/[^\p{L}\p{N}_.-]+/gu, "_"));
+}
+
+/**
+ * Helper Function: handlePieces
+ *
+ * Parts of a handle between underscores. They appear unchanged in the
+ * user's name, so they narrow down the users to compare handles with.
+ *
+ * @param handle - Handle or handle prefix ("Jane_O_Neil")
+ * @returns string[] - Non-empty pieces (["Jane", "O", "Neil"])
+ */
+export const handlePieces = (handle: string): string[] => {
+    return handle.split("_").filter(Boolean);
+}
+
+/**
+ * Function: extractMentions
+ *
+ * Handles mentioned in a Markdown text, without duplicates (case-insensitive),
+ * in order of appearance. Code and link text are skipped.
+ *
+ * @param markdown - Post or comment content
+ * @returns string[] - Handles without the "@" (at most MAX_MENTIONS)
+ */
+export const extractMentions = (markdown: string): string[] => {
+    const handles = new Map<string, string>();
+
+    for (const text of collectText(parser.parse(markdown))) {
+        for (const match of text.matchAll(MENTION_PATTERN)) {
+            const handle = trimHandle(match[2]);
+
+            if (handle && !handles.has(handle.toLowerCase())) {
+                handles.set(handle.toLowerCase(), handle);
+            }
+            if (handles.size === MAX_MENTIONS) {
+                return [...handles.values()];
+            }
+        }
+    }
+
+    return [...handles.values()];
+}
@@ -0,0 +1,54 @@
+// lib/notification-text.ts
+//
+// How a notification reads - shared by the inbox and the emails.
+// No server-only imports: client components use it too.
+
+// Import Prisma types
+import type { NotificationType } from "@prisma/client";
+
+/**
+ * What happened, after the actor's name
+ */
+export const NOTIFICATION_DESCRIPTIONS: Record<NotificationType, string> = {
+    POST_REPLY: "commented on your post",
+    COMMENT_REPLY: "replied to your comment in",
+    MENTION: "mentioned you in"
+};
+
+/**
+ * Longest comment excerpt shown
+ */
+const EXCERPT_LENGTH = 140;
+
+/**
+ * Helper Function: notificationPath
+ *
+ * Comments link to their place in the thread.
+ *
+ * @param notification - Post (with topic slug) and comment
+ * @returns string - Path of the post page
+ */
+export const notificationPath = ({ post, comment }: {
+    post: { id: string; topic: { slug: string } };
+    comment: { id: string } | null;
+}): string => {
+    return `/topic/${post.topic.slug}/posts/${post.id}${comment ? `#comment-${comment.id}` : ""}`;
+}
+
+/**
+ * Helper Function: notificationExcerpt
+ *
+ * @param comment - Comment of the notification (if any)
+ * @returns string | null - Start of the comment, null for posts and deleted comments
+ */
+export const notificationExcerpt = (
+    comment: { content: string; deletedAt: Date | null } | null
+): string | null => {
+    if (!comment || comment.deletedAt) {
+        return null;
+    }
+
+    return comment.content.length > EXCERPT_LENGTH
+        ? `${comment.content.slice(0, EXCERPT_LENGTH)}…`
+        : comment.content;
+}
@@ -0,0 +1,193 @@
+// lib/notifications.ts
+//
+// Creates in-app notifications (shown in the header bell and /notifications).
+// - POST_REPLY    → someone commented on your post
+// - COMMENT_REPLY → someone replied to your comment
+// - MENTION       → someone @mentioned you in a post or comment
+// Nobody is notified about their own actions, and every user gets at most
+// one notification per post or comment (a reply that also mentions you
+// counts as a reply).
+// Users who chose IMMEDIATE email notifications also get an email right
+// after the response; DAILY / WEEKLY digests are sent by lib/jobs/email-digests.ts.
+
+// Import Prisma types
+import type { NotificationType } from "@prisma/client";
+
+// Import Prisma client instance
+// prisma - database client for querying the database
+import { prisma } from "@/lib";
+
+// Runs work after the response is sent
+import { after } from "next/server";
+
+// @mentions
+import { extractMentions } from "@/lib/mentions";
+import { findMentionedUsers } from "@/lib/query/user";
+
+// Emails
+import { inboxNotificationSelect } from "@/lib/query/notification";
+import { getEmailTransport } from "@/lib/email/transport";
+import { notificationEmail } from "@/lib/email/templates";
+
+/**
+ * TypeScript Type: NewNotification
+ *
+ * One notification to create (recipient + what it is about)
+ */
+type NewNotification = {
+    userId: string;
+    type: NotificationType;
+}
+
+/**
+ * Helper Function: createNotifications
+ *
+ * Stores notifications for one post / comment, skipping the actor
+ * and duplicate recipients (the first one of each user wins).
+ *
+ * @param notifications - Recipients in order of importance
+ * @param about - Actor, post and (optional) comment
+ */
+const createNotifications = async (
+    notifications: NewNotification[],
+    about: { actorId: string; postId: string; commentId?: string }
+) => {
+    const seen = new Set<string>([about.actorId]);
+    const data = notifications.filter((notification) => {
+        if (seen.has(notification.userId)) {
+            return false;
+        }
+        seen.add(notification.userId);
+        return true;
+    });
+
+    if (data.length === 0) {
+        return;
+    }
+
+    const created = await prisma.notification.createManyAndReturn({
+        data: data.map((notification) => ({
+            ...notification,
+            actorId: about.actorId,
+            postId: about.postId,
+            commentId: about.commentId ?? null
+        })),
+        select: { id: true }
+    });
+
+    // SMTP is slow - the post or comment doesn't wait for it
+    const ids = created.map((notification) => notification.id);
+    after(() => emailImmediately(ids));
+}
+
+/**
+ * Helper Function: emailImmediately
+ *
+ * Emails new notifications to recipients who chose IMMEDIATE
+ * (scheduled with after(), once the response is sent).
+ * Email is best effort: the notification is in the inbox already, so
+ * a failed send (or a broken email setup) must not fail the post or comment.
+ * Sent notifications are marked, so no digest repeats them.
+ *
+ * @param ids - Notifications just created
+ */
+const emailImmediately = async (ids: string[]) => {
+    const notifications = await prisma.notification.findMany({
+        where: { id: { in: ids }, user: { emailFrequency: "IMMEDIATE" } },
+        select: { ...inboxNotificationSelect, user: { select: { email: true } } }
+    });
+
+    if (notifications.length === 0) {
+        return;
+    }
+
+    let transport;
+
+    try {
+        transport = getEmailTransport();
+    } catch (error: unknown) {
+        console.error("Email is not set up:", error);
+        return;
+    }
+
+    for (const notification of notifications) {
+        try {
+            await transport.send(notificationEmail(notification.user.email, notification));
+            await prisma.notification.update({
+                where: { id: notification.id },
+                data: { emailedAt: new Date() }
+            });
+        } catch (error: unknown) {
+            console.error(`Failed to email notification ${notification.id}:`, error);
+        }
+    }
+}
+
+/**
+ * Helper Function: mentionNotifications
+ *
+ * @param content - Post or comment content
+ * @returns Promise<NewNotification[]> - One MENTION per mentioned user
+ */
+const mentionNotifications = async (content: string): Promise<NewNotification[]> => {
+    const users = await findMentionedUsers(extractMentions(content));
+
+    return users.map((user) => ({ userId: user.id, type: "MENTION" }));
+}
+
+/**
+ * Function: notifyNewComment
+ *
+ * Notifies the author of what was replied to (the parent comment, or the
+ * post for top-level comments) and everyone mentioned in the comment.
+ *
+ * @param comment - The new comment
+ */
+export const notifyNewComment = async (comment: {
+    id: string;
+    postId: string;
+    parentId: string | null;
+    userId: string;
+    content: string;
+}) => {
+    const repliedTo = comment.parentId
+        ? await prisma.comment.findUnique({
+            where: { id: comment.parentId },
+            select: { userId: true }
+        })
+        : await prisma.post.findUnique({
+            where: { id: comment.postId },
+            select: { userId: true }
+        });
+
+    const notifications: NewNotification[] = [];
+
+    if (repliedTo) {
+        notifications.push({
+            userId: repliedTo.userId,
+            type: comment.parentId ? "COMMENT_REPLY" : "POST_REPLY"
+        });
+    }
+
+    notifications.push(...await mentionNotifications(comment.content));
+
+    await createNotifications(notifications, {
+        actorId: comment.userId,
+        postId: comment.postId,
+        commentId: comment.id
+    });
+}
+
+/**
+ * Function: notifyNewPost
+ *
+ * Notifies everyone mentioned in a new post.
+ *
+ * @param post - The new post
+ */
+export const notifyNewPost = async (post: { id: string; userId: string; content: string }) => {
+    await createNotifications(await mentionNotifications(post.content), {
+        actorId: post.userId,
+        postId: post.id
+    });
+}
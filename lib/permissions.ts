@@ -0,0 +1,169 @@
+// lib/permissions.ts
+//
+// Central permission checks.
+// Every server action (and every page that shows edit/delete buttons)
+// asks `can()` instead of comparing user ids itself.
+//
+// Site roles (User.role):
+// - ADMIN     → can do everything
+// - MODERATOR → can clean up any content (delete, lock, pin), manage any topic
+//               and ban users
+// - MEMBER    → can edit and delete their own content
+//
+// Topic roles (Topic.ownerId + TopicModerator):
+// - The topic owner and the topic's moderators can remove, lock and pin
+//   content in that topic, handle its reports, ban users from it, edit its
+//   description and appoint moderators
+// - Only the owner can rename or delete the topic itself (staff can delete
+//   it too, admins rename it)
+
+// Role enum generated from prisma/schema.prisma
+import type { Role } from "@prisma/client";
+
+/**
+ * TypeScript Type: PermissionAction
+ *
+ * Things a user can do to a piece of content (or a topic)
+ * - manage   → edit the topic description, appoint/remove topic moderators
+ * - moderate → handle reports (dismiss, remove the content, warn the author)
+ * - ban      → ban or suspend users (site-wide without a topic, else in that topic)
+ * - announce → show a post as a site-wide announcement on the home page
+ * - move     → move a post to another topic
+ */
+export type PermissionAction = "edit" | "delete" | "lock" | "pin" | "manage" | "moderate" | "ban" | "announce" | "move";
+
+/**
+ * TypeScript Type: Actor
+ *
+ * The user trying to act - usually session.user.
+ * null / undefined means "not logged in".
+ */
+export type Actor = {
+    id: string;
+    role: Role;
+} | null | undefined;
+
+/**
+ * TypeScript Type: TopicRoles
+ *
+ * Who runs a topic (load with topicRolesSelect from lib/query/topic.ts)
+ */
+export type TopicRoles = {
+    ownerId: string | null;
+    moderators: { userId: string }[];
+};
+
+/**
+ * TypeScript Type: Resource
+ *
+ * What is being acted on:
+ * - a post or comment → { userId: author, topic: its topic's roles }
+ * - a topic           → { topic: its roles }
+ * - renaming (edit) or deleting a topic itself → { userId: its owner }
+ *   (no topic roles - topic moderators can't do either)
+ */
+export type Resource = {
+    userId?: string;
+    topic?: TopicRoles;
+};
+
+/**
+ * Helper Function: isStaff
+ *
+ * Admins and site moderators
+ *
+ * @param actor - The acting user
+ * @returns boolean - true for ADMIN and MODERATOR
+ */
+export const isStaff = (actor: Actor): boolean => {
+    return actor?.role === "ADMIN" || actor?.role === "MODERATOR";
+}
+
+/**
+ * Helper Function: isTopicStaff
+ *
+ * The topic's owner and moderators
+ *
+ * @param actor - The acting user
+ * @param topic - Roles of the topic (optional)
+ * @returns boolean - true if the actor owns or moderates the topic
+ */
+export const isTopicStaff = (actor: Actor, topic?: TopicRoles): boolean => {
+    if (!actor || !topic) {
+        return false;
+    }
+
+    return topic.ownerId === actor.id ||
+        topic.moderators.some((moderator) => moderator.userId === actor.id);
+}
+
+/**
+ * Helper Function: leadsTopic
+ *
+ * Site staff and the topic's owner outrank the topic's moderators
+ * (topic moderators can't ban them or act on their content)
+ *
+ * @param actor - The acting user
+ * @param topic - Roles of the topic
+ * @returns boolean - true for site staff and the owner
+ */
+export const leadsTopic = (actor: Actor, topic: TopicRoles): boolean => {
+    return isStaff(actor) || topic.ownerId === actor?.id;
+}
+
+/**
+ * Function: can
+ *
+ * Decides whether a user may perform an action on a post, comment or topic.
+ *
+ * Rules:
+ * - edit   → the author, or an admin
+ * - delete → the author, staff, or the topic's owner/moderators
+ * - lock   → staff, or the topic's owner/moderators
+ * - pin    → staff, or the topic's owner/moderators
+ * - manage → staff, or the topic's owner/moderators
+ * - moderate → staff, or the topic's owner/moderators
+ * - ban    → staff; the topic's owner/moderators only for their topic
+ * - announce → admins only
+ * - move   → the author, staff, or the topic's owner/moderators
+ *
+ * @param actor - The acting user (session.user)
+ * @param action - What they want to do
+ * @param resource - The post, comment or topic
+ * @returns boolean - true if allowed
+ */
+export const can = (
+    actor: Actor,
+    action: PermissionAction,
+    resource: Resource
+): boolean => {
+    // Anonymous users can't change anything
+    if (!actor) {
+        return false;
+    }
+
+    // Admins can do everything
+    if (actor.role === "ADMIN") {
+        return true;
+    }
+
+    const isAuthor = resource.userId !== undefined && actor.id === resource.userId;
+    const isModerator = isStaff(actor) || isTopicStaff(actor, resource.topic);
+
+    switch (action) {
+        case "edit":
+            return isAuthor;
+        case "delete":
+        case "move":
+            return isAuthor || isModerator;
+        case "lock":
+        case "pin":
+        case "manage":
+        case "moderate":
+        case "ban":
+            return isModerator;
+        case "announce":
+            // Admins returned true above
+            return false;
+    }
+}
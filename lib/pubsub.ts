@@ -0,0 +1,92 @@
+// lib/pubsub.ts
+//
+// Publish/subscribe for live updates (e.g. the comment stream of a post).
+// Messages are strings on named channels - the same model as Postgres
+// LISTEN/NOTIFY, so the in-process default can be swapped for it.
+//
+// The default only reaches subscribers in the same server process.
+// Running several instances needs a shared backend: implement PubSub
+// (e.g. with LISTEN/NOTIFY or Redis) and install it with setPubSub.
+
+/**
+ * TypeScript Type: PubSubListener
+ *
+ * Called with every message published on a subscribed channel
+ */
+export type PubSubListener = (message: string) => void;
+
+/**
+ * TypeScript Type: PubSub
+ *
+ * - publish: Sends a message to everyone subscribed to the channel
+ * - subscribe: Starts listening; returns a function that stops it
+ */
+export type PubSub = {
+    publish: (channel: string, message: string) => Promise<void>;
+    subscribe: (channel: string, listener: PubSubListener) => () => void;
+}
+
+/**
+ * Function: createMemoryPubSub
+ *
+ * In-process PubSub. A failing listener doesn't stop the others.
+ *
+ * @returns PubSub - Channels kept in memory
+ */
+export const createMemoryPubSub = (): PubSub => {
+    const channels = new Map<string, Set<PubSubListener>>();
+
+    return {
+        publish: async (channel, message) => {
+            for (const listener of channels.get(channel) ?? []) {
+                try {
+                    listener(message);
+                } catch {
+                    // Listener's problem (e.g. a closed stream) - keep delivering
+                }
+            }
+        },
+        subscribe: (channel, listener) => {
+            const listeners = channels.get(channel) ?? new Set<PubSubListener>();
+
+            listeners.add(listener);
+            channels.set(channel, listeners);
+
+            return () => {
+                listeners.delete(listener);
+                if (listeners.size === 0) {
+                    channels.delete(channel);
+                }
+            };
+        }
+    };
+}
+
+/**
+ * The instance lives on globalThis: route handlers and server actions
+ * are bundled separately, and each bundle gets its own copy of this
+ * module - they still have to share one set of channels.
+ */
+const globalForPubSub = globalThis as unknown as { pubsub?: PubSub };
+
+/**
+ * Function: getPubSub
+ *
+ * @returns PubSub - The installed implementation (in-process by default)
+ */
+export const getPubSub = (): PubSub => {
+    globalForPubSub.pubsub ??= createMemoryPubSub();
+
+    return globalForPubSub.pubsub;
+}
+
+/**
+ * Function: setPubSub
+ *
+ * Replaces the implementation (call once at startup, before anything subscribes).
+ *
+ * @param pubsub - E.g. a Postgres LISTEN/NOTIFY backed PubSub
+ */
+export const setPubSub = (pubsub: PubSub) => {
+    globalForPubSub.pubsub = pubsub;
+}
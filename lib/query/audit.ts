@@ -0,0 +1,116 @@
+// lib/query/audit.ts
+//
+// Audit log queries for the admin viewer (/admin/audit).
+
+// Import Prisma types
+import type { AuditLog, Prisma } from "@prisma/client";
+
+// Import Prisma client instance
+import { prisma } from "..";
+
+// Shared pagination contract
+import { paginate, type Page, type PageOptions } from "./post";
+
+// YYYY-MM-DD check (shared with the search syntax)
+import { isDay } from "../utils";
+
+// Known actions and target types
+import {
+    AUDIT_TARGET_TYPES,
+    isAuditAction,
+    type AuditAction,
+    type AuditTargetType
+} from "../audit";
+
+/**
+ * TypeScript Type: AuditFilters
+ *
+ * Filters of the audit log viewer (all optional):
+ * - action: One recorded action ("post.delete", ...)
+ * - actor: Part of the acting user's name (case-insensitive)
+ * - targetType / targetId: What the action was done to
+ * - after / before: On or after / before this day (YYYY-MM-DD, UTC)
+ */
+export type AuditFilters = {
+    action?: AuditAction;
+    actor?: string;
+    targetType?: AuditTargetType;
+    targetId?: string;
+    after?: string;
+    before?: string;
+}
+
+/**
+ * Default page size for the audit log
+ */
+export const AUDIT_PAGE_SIZE = 50;
+
+/**
+ * Function: parseAuditFilters
+ *
+ * Turns the viewer's query string into filters.
+ * Unknown actions, target types and invalid days are ignored.
+ *
+ * @param params - searchParams of the viewer page
+ * @returns AuditFilters - Valid filters only
+ */
+export const parseAuditFilters = (params: Record<string, string | undefined>): AuditFilters => {
+    const filters: AuditFilters = {};
+    const targetType = AUDIT_TARGET_TYPES.find((type) => type === params.targetType);
+
+    if (params.action && isAuditAction(params.action)) {
+        filters.action = params.action;
+    }
+    if (params.actor?.trim()) {
+        filters.actor = params.actor.trim();
+    }
+    if (targetType) {
+        filters.targetType = targetType;
+    }
+    if (params.targetId?.trim()) {
+        filters.targetId = params.targetId.trim();
+    }
+
+    if (params.after && isDay(params.after)) {
+        filters.after = params.after;
+    }
+    if (params.before && isDay(params.before)) {
+        filters.before = params.before;
+    }
+
+    return filters;
+}
+
+/**
+ * Query Function: fetchAuditLog
+ *
+ * Audit log entries matching the filters, newest first, one page at a time.
+ *
+ * @param filters - Parsed filters
+ * @param options.cursor - Id of the last entry of the previous page (optional)
+ * @param options.take - Page size (default AUDIT_PAGE_SIZE)
+ * @returns Promise<Page<AuditLog>> - Entries of this page and the next cursor
+ */
+export const fetchAuditLog = async (
+    filters: AuditFilters,
+    { cursor, take = AUDIT_PAGE_SIZE }: PageOptions = {}
+): Promise<Page<AuditLog>> => {
+    const where: Prisma.AuditLogWhereInput = {
+        action: filters.action,
+        targetType: filters.targetType,
+        targetId: filters.targetId,
+        ...(filters.actor ? { actorName: { contains: filters.actor, mode: "insensitive" } } : {}),
+        ...(filters.after || filters.before ? {
+            createdAt: {
+                // On or after the start of that day / strictly before the start of that day
+                ...(filters.after ? { gte: new Date(filters.after) } : {}),
+                ...(filters.before ? { lt: new Date(filters.before) } : {})
+            }
+        } : {})
+    };
+
+    return paginate(
+        (page) => prisma.auditLog.findMany({ where, orderBy: [{ createdAt: "desc" }, { id: "desc" }], ...page }),
+        { cursor, take }
+    );
+}
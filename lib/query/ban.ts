@@ -0,0 +1,88 @@
+// lib/query/ban.ts
+//
+// Ban queries for the bans page (/mod/bans) and the profile.
+
+// Import Prisma types
+import type { Prisma } from "@prisma/client";
+
+// Import Prisma client instance
+import { prisma } from "..";
+
+// Active = not lifted and not expired
+import { activeBanWhere } from "../bans";
+
+// Staff see every ban, topic staff only their topics'
+import { isStaff, type Actor } from "../permissions";
+
+/**
+ * Select for a ban in the bans list
+ */
+const banListSelect = {
+    id: true,
+    reason: true,
+    expiresAt: true,
+    createdAt: true,
+    user: { select: { id: true, name: true } },
+    topic: { select: { slug: true } },
+    createdBy: { select: { name: true } }
+} satisfies Prisma.BanSelect;
+
+/**
+ * TypeScript Type: BanListItem
+ *
+ * One active ban with the banned user, topic and moderator
+ */
+export type BanListItem = Prisma.BanGetPayload<{ select: typeof banListSelect }>;
+
+/**
+ * Query Function: fetchActiveBansForModerator
+ *
+ * Active bans the actor may see (and lift), newest first.
+ * - Admins and site moderators → every ban
+ * - Everyone else              → bans in topics they own or moderate
+ *
+ * @param actor - The moderator (session.user)
+ * @returns Promise<BanListItem[]> - Active bans
+ */
+export const fetchActiveBansForModerator = async (actor: Actor): Promise<BanListItem[]> => {
+    if (!actor) {
+        return [];
+    }
+
+    return prisma.ban.findMany({
+        where: {
+            ...activeBanWhere(),
+            ...(isStaff(actor) ? {} : {
+                topic: {
+                    OR: [
+                        { ownerId: actor.id },
+                        { moderators: { some: { userId: actor.id } } }
+                    ]
+                }
+            })
+        },
+        select: banListSelect,
+        orderBy: { createdAt: "desc" }
+    });
+}
+
+/**
+ * Query Function: fetchActiveBans
+ *
+ * Restrictions currently in force for one user (shown on their profile).
+ *
+ * @param userId - User id
+ * @returns Promise - Active bans with their topic
+ */
+export const fetchActiveBans = async (userId: string) => {
+    return prisma.ban.findMany({
+        where: { userId, ...activeBanWhere() },
+        select: {
+            id: true,
+            reason: true,
+            expiresAt: true,
+            topic: { select: { slug: true } }
+        },
+        orderBy: { createdAt: "desc" }
+    });
+}
@@ -1,13 +1,19 @@
 // Import TypeScript type from Prisma generated types
 // Comment type represents a comment record from the database
 // This gives us type safety when working with comment data
-import type { Comment } from "@prisma/client";
+import type { Comment, Prisma } from "@prisma/client";
 
 // Import Prisma client instance
 // ".." means go up one directory (from lib/query to lib)
 // prisma is the database client that lets us query the database
 import { prisma } from "..";
 
+// Shared pagination contract
+import { paginate, POST_PAGE_SIZE, type Page, type PageOptions } from "./post";
+
+// Users mentioned in the thread (one lookup for all comments)
+import { resolveMentionLinks, type MentionLinks } from "./user";
+
 /**
  * TypeScript Type: CommentWithAuthor
  * 
@@ -17,6 +23,7 @@ import { prisma } from "..";
  * Contains:
  * - All fields from Comment (id, content, postId, userId, parentId, createdAt, etc.)
  * - user: Object with name and image fields (author information)
+ * - revisions: Previous versions of the comment (edit history, newest first)
  * 
  * This type represents a comment with author data needed for display
  */
@@ -25,6 +32,11 @@ export type CommentWithAuthor = Comment & {
         name: string | null;   // Author's name (nullable - user might not have name set)
         image: string | null   // Author's profile image URL (nullable - user might not have image)
     }
+    revisions: {
+        id: string;            // Revision ID
+        content: string;       // Comment text before the edit
+        createdAt: Date        // When the edit happened
+    }[]
 }
 
 /**
@@ -36,10 +48,11 @@ export type CommentWithAuthor = Comment & {
  * Uses Prisma to:
  * - Filter comments by post ID
  * - Include related user data (author name and image)
- * - Order by creation date (newest first)
+ * - Include edit history (revisions, newest first)
+ * - Order by score (highest first), then creation date (newest first)
  * 
  * Note: This fetches ALL comments (including nested/replies).
- * The component handles organizing them into a tree structure.
+ * Use fetchCommentTreeByPostId to get them organized as a reply tree.
  * 
  * @param postId - The ID of the post to get comments for
  * @returns Promise<CommentWithAuthor[]> - Array of comments with author data
@@ -60,11 +73,166 @@ export const fetchCommentByPostId = async (postId: string): Promise<CommentWithA
                     name: true,   // Include author's name
                     image: true   // Include author's profile image URL
                 }
+            },
+            // revisions - previous versions of the comment
+            // Empty array means the comment was never edited
+            revisions: {
+                select: {
+                    id: true,
+                    content: true,
+                    createdAt: true
+                },
+                orderBy: {
+                    createdAt: "desc"  // Most recent edit first
+                }
             }
         },
         // orderBy - sort the results
-        orderBy: {
-            createdAt: "desc"  // Sort by creation date, descending (newest first)
-        }
+        // Best voted comments first, newest first when scores are equal
+        // (buildCommentTree keeps this order for replies too)
+        orderBy: [
+            { score: "desc" },
+            { createdAt: "desc" }
+        ]
     });
 }
+
+/**
+ * TypeScript Type: CommentNode
+ * 
+ * A comment inside the reply tree.
+ * Same as CommentWithAuthor, plus its direct replies (which are nodes themselves).
+ */
+export type CommentNode = CommentWithAuthor & {
+    children: CommentNode[]   // Direct replies to this comment
+}
+
+/**
+ * TypeScript Type: CommentTree
+ * 
+ * Result of fetchCommentTreeByPostId:
+ * - roots: Top-level comments (parentId === null), each with its replies nested inside
+ * - count: Number of comments that aren't deleted (tombstones don't count)
+ * - ids: Ids of every comment in the tree (for batched lookups like votes)
+ * - mentions: Users @mentioned anywhere in the thread (profile links)
+ */
+export type CommentTree = {
+    roots: CommentNode[];
+    count: number;
+    ids: string[];
+    mentions: MentionLinks;
+}
+
+/**
+ * Helper Function: buildCommentTree
+ * 
+ * Turns a flat list of comments into a tree in memory.
+ * 
+ * How it works:
+ * 1. Create a node (comment + empty children array) for every comment, keyed by id
+ * 2. Walk the list again and push every node into its parent's children
+ * 3. Comments without a parent become roots
+ * 
+ * Runs in O(n) and keeps the order of the input list for siblings.
+ * 
+ * @param comments - Flat list of comments of one post
+ * @returns CommentNode[] - Top-level comments with nested replies
+ */
+export const buildCommentTree = (comments: CommentWithAuthor[]): CommentNode[] => {
+    // Map of comment id -> node, so parents can be found in O(1)
+    const nodes = new Map<string, CommentNode>();
+
+    for (const comment of comments) {
+        nodes.set(comment.id, { ...comment, children: [] });
+    }
+
+    const roots: CommentNode[] = [];
+
+    for (const comment of comments) {
+        const node = nodes.get(comment.id)!;
+        const parent = comment.parentId ? nodes.get(comment.parentId) : undefined;
+
+        if (parent) {
+            // Reply - attach to its parent
+            parent.children.push(node);
+        } else {
+            // Top-level comment (or a reply whose parent is missing)
+            roots.push(node);
+        }
+    }
+
+    return roots;
+}
+
+/**
+ * Query Function: fetchCommentTreeByPostId
+ * 
+ * Fetches all comments of a post with ONE query and returns them as a tree.
+ * Components render straight from the tree - no per-comment queries.
+ * 
+ * @param postId - The ID of the post to get comments for
+ * @returns Promise<CommentTree> - Top-level comments (with replies), comment count, ids and mentions
+ */
+export const fetchCommentTreeByPostId = async (postId: string): Promise<CommentTree> => {
+    // One flat fetch of every comment of the post
+    const comments = await fetchCommentByPostId(postId);
+
+    return {
+        roots: buildCommentTree(comments),
+        count: comments.filter((comment) => comment.deletedAt === null).length,
+        ids: comments.map((comment) => comment.id),
+        // One query for every @mention of the thread
+        mentions: await resolveMentionLinks(comments.map((comment) => comment.content))
+    };
+}
+
+/**
+ * Select for a comment on a user's profile
+ * (the comment and the post it belongs to)
+ */
+const userCommentSelect = {
+    id: true,
+    content: true,
+    score: true,
+    createdAt: true,
+    post: {
+        select: {
+            id: true,
+            title: true,
+            topic: { select: { slug: true } }
+        }
+    }
+} satisfies Prisma.CommentSelect;
+
+/**
+ * TypeScript Type: UserComment
+ * 
+ * One comment on a profile, with the post it was written on
+ */
+export type UserComment = Prisma.CommentGetPayload<{ select: typeof userCommentSelect }>;
+
+/**
+ * Query Function: fetchCommentsByUserId
+ * 
+ * One page of a user's comments, newest first (public profile page).
+ * Deleted comments are left out.
+ * 
+ * @param userId - Author
+ * @param options.cursor - Id of the last comment of the previous page (optional)
+ * @param options.take - Page size (default POST_PAGE_SIZE)
+ * @returns Promise<Page<UserComment>> - Comments of this page and the next cursor
+ */
+export const fetchCommentsByUserId = async (
+    userId: string,
+    { cursor, take = POST_PAGE_SIZE }: PageOptions = {}
+): Promise<Page<UserComment>> => {
+    return paginate(
+        (page) => prisma.comment.findMany({
+            where: { userId, deletedAt: null },
+            select: userCommentSelect,
+            orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+            ...page
+        }),
+        { cursor, take }
+    );
+}
@@ -0,0 +1,81 @@
+// lib/query/notification.ts
+//
+// Notification queries for the header bell and the inbox (/notifications).
+
+// Import Prisma types
+import type { Prisma } from "@prisma/client";
+
+// Import Prisma client instance
+import { prisma } from "..";
+
+// Shared pagination contract
+import { paginate, type Page, type PageOptions } from "./post";
+
+/**
+ * Default page size for the inbox
+ */
+export const NOTIFICATIONS_PAGE_SIZE = 30;
+
+/**
+ * Select for a notification in the inbox and in emails
+ * (who did it, and the post / comment it is about)
+ */
+export const inboxNotificationSelect = {
+    id: true,
+    type: true,
+    readAt: true,
+    createdAt: true,
+    actor: { select: { id: true, name: true, image: true } },
+    post: {
+        select: {
+            id: true,
+            title: true,
+            topic: { select: { slug: true } }
+        }
+    },
+    comment: { select: { id: true, content: true, deletedAt: true } }
+} satisfies Prisma.NotificationSelect;
+
+/**
+ * TypeScript Type: InboxNotification
+ *
+ * One notification with its actor, post and comment
+ */
+export type InboxNotification = Prisma.NotificationGetPayload<{ select: typeof inboxNotificationSelect }>;
+
+/**
+ * Query Function: fetchNotifications
+ *
+ * A user's notifications, newest first, one page at a time.
+ *
+ * @param userId - Recipient
+ * @param options.cursor - Id of the last notification of the previous page (optional)
+ * @param options.take - Page size (default NOTIFICATIONS_PAGE_SIZE)
+ * @returns Promise<Page<InboxNotification>> - Notifications of this page and the next cursor
+ */
+export const fetchNotifications = async (
+    userId: string,
+    { cursor, take = NOTIFICATIONS_PAGE_SIZE }: PageOptions = {}
+): Promise<Page<InboxNotification>> => {
+    return paginate(
+        (page) => prisma.notification.findMany({
+            where: { userId },
+            select: inboxNotificationSelect,
+            orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+            ...page
+        }),
+        { cursor, take }
+    );
+}
+
+/**
+ * Query Function: countUnreadNotifications
+ *
+ * @param userId - Recipient
+ * @returns Promise<number> - Notifications not read yet
+ */
+export const countUnreadNotifications = async (userId: string): Promise<number> => {
+    return prisma.notification.count({
+        where: { userId, readAt: null }
+    });
+}
@@ -1,7 +1,7 @@
 // Import TypeScript type from Prisma generated types
 // Post type represents a post record from the database
 // This gives us type safety when working with post data
-import type { Post } from "@prisma/client";
+import type { Post, Prisma } from "@prisma/client";
 
 // Import Prisma client instance
 // ".." means go up one directory (from lib/query to lib)
@@ -28,139 +28,303 @@ export type PostWithData = Post & {
     user: { name: string | null }         // Author name (nullable because user might not have name)
 }
 
+/**
+ * TypeScript Type: Page
+ * 
+ * Shared contract for every paginated query:
+ * - items: The rows of this page
+ * - nextCursor: Opaque cursor for the next page (null = this is the last page)
+ * 
+ * Pages pass nextCursor back as `?cursor=...` to load the next page.
+ */
+export type Page<T> = {
+    items: T[];
+    nextCursor: string | null;
+}
+
+/**
+ * TypeScript Type: PostPage
+ * 
+ * One page of posts plus the cursor for the next page.
+ */
+export type PostPage = Page<PostWithData>;
+
+/**
+ * TypeScript Type: PageOptions
+ * 
+ * Paging options accepted by the paginated post queries:
+ * - cursor: Id of the last post of the previous page (optional)
+ * - take: Page size (optional, each query has its own default)
+ */
+export type PageOptions = {
+    cursor?: string;
+    take?: number;
+}
+
+/**
+ * Default page size for topic feeds and search results
+ */
+export const POST_PAGE_SIZE = 20;
+
+/**
+ * TypeScript Type: PageArgs
+ * 
+ * Paging part of a findMany call, built by paginate
+ */
+export type PageArgs = {
+    take: number;
+    cursor?: { id: string };
+    skip?: number;
+}
+
+/**
+ * Helper Function: paginate
+ * 
+ * Runs any query one page at a time using Prisma cursors.
+ * 
+ * How it works:
+ * - cursor: { id } + skip: 1 → start right after the last row of the previous page
+ * - take: take + 1 → fetch one extra row to know whether another page exists
+ * - the query's orderBy must end with a unique field (id) so the order is always stable
+ * 
+ * @param findPage - Runs the query with the given paging arguments
+ * @param options - cursor and page size (the query's default already applied)
+ * @returns Promise<Page<T>> - Rows of this page and the next cursor
+ */
+export const paginate = async <T extends { id: string }>(
+    findPage: (args: PageArgs) => Promise<T[]>,
+    { cursor, take }: { cursor?: string; take: number }
+): Promise<Page<T>> => {
+    const rows = await findPage({
+        // Fetch one extra row to detect the next page
+        take: take + 1,
+
+        // Continue after the cursor row (skip: 1 skips the cursor itself)
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    });
+
+    // More rows than requested means there is another page
+    const hasMore = rows.length > take;
+    const items = hasMore ? rows.slice(0, take) : rows;
+
+    return {
+        items,
+        nextCursor: hasMore ? items[items.length - 1].id : null
+    };
+}
+
+/**
+ * Include used by every post list query
+ * (topic slug for URLs, comment count and author name for display)
+ */
+const postListInclude = {
+    // Include topic slug for building URLs
+    topic: { select: { slug: true } },
+
+    // Include comment count
+    // _count is a Prisma feature that counts related records
+    _count: { select: { comments: true } },
+
+    // Include author name
+    user: { select: { name: true } }
+} satisfies Prisma.PostInclude;
+
+/**
+ * Helper Function: paginatePosts
+ * 
+ * Runs a post list query one page at a time (see paginate).
+ * 
+ * @param where - Filter condition
+ * @param orderBy - Sort order (ending with id)
+ * @param options - cursor and page size
+ * @returns Promise<PostPage> - Posts of this page and the next cursor
+ */
+const paginatePosts = async (
+    where: Prisma.PostWhereInput,
+    orderBy: Prisma.PostOrderByWithRelationInput[],
+    { cursor, take = POST_PAGE_SIZE }: PageOptions
+): Promise<PostPage> => {
+    return paginate(
+        (page) => prisma.post.findMany({ where, include: postListInclude, orderBy, ...page }),
+        { cursor, take }
+    );
+}
+
+/**
+ * TypeScript Type: PostSort
+ * 
+ * How a list of posts is ordered:
+ * - "new": newest first
+ * - "top": highest score (upvotes minus downvotes) first
+ */
+export type PostSort = "new" | "top";
+
+/**
+ * Helper Function: postOrderBy
+ * 
+ * Builds the Prisma orderBy for a PostSort.
+ * "top" falls back to newest first when scores are equal.
+ * id is always last so cursor paging has a stable order.
+ * 
+ * @param sort - The requested sort order
+ * @returns Prisma orderBy array
+ */
+const postOrderBy = (sort: PostSort): Prisma.PostOrderByWithRelationInput[] => {
+    if (sort === "top") {
+        return [{ score: "desc" }, { createdAt: "desc" }, { id: "desc" }];
+    }
+
+    return [{ createdAt: "desc" }, { id: "desc" }];
+}
+
 /**
  * Query Function: fetchPostByTopicSlug
  * 
- * Fetches all posts belonging to a specific topic.
+ * Fetches one page of posts belonging to a specific topic.
+ * Pinned posts are left out - they are shown above the feed
+ * (see fetchPinnedPosts).
  * 
  * Uses Prisma to query the database:
- * - Filters posts by topic slug
+ * - Filters posts by topic slug (not pinned)
  * - Includes related data (topic, comment count, user)
- * - Orders by creation date (newest first)
+ * - Orders by creation date (newest first) or by score
+ * - Returns at most one page (cursor based)
  * 
  * @param slug - The topic slug (URL-friendly identifier, e.g., "javascript")
- * @returns Promise<PostWithData[]> - Array of posts with related data
+ * @param options.sort - "new" (default) or "top"
+ * @param options.cursor - Id of the last post of the previous page (optional)
+ * @param options.take - Page size (default POST_PAGE_SIZE)
+ * @returns Promise<PostPage> - Posts of this page and the next cursor
+ */
+export const fetchPostByTopicSlug = async (
+    slug: string,
+    { sort = "new", ...page }: PageOptions & { sort?: PostSort } = {}
+): Promise<PostPage> => {
+    return paginatePosts(
+        // topic: { slug } - nested condition
+        // This finds posts where the related topic has this slug
+        // Prisma automatically joins the Topic table
+        { topic: { slug }, pinnedAt: null },
+        // Newest first, or highest score first
+        postOrderBy(sort),
+        page
+    );
+}
+
+/**
+ * Query Function: fetchPinnedPosts
+ * 
+ * Posts pinned to the top of a topic, most recently pinned first.
+ * 
+ * @param slug - The topic slug
+ * @returns Promise<PostWithData[]> - Pinned posts (not paginated - topics pin only a few)
+ */
+export const fetchPinnedPosts = async (slug: string): Promise<PostWithData[]> => {
+    return prisma.post.findMany({
+        where: { topic: { slug }, pinnedAt: { not: null } },
+        include: postListInclude,
+        orderBy: [{ pinnedAt: "desc" }, { id: "desc" }]
+    });
+}
+
+/**
+ * Query Function: fetchAnnouncements
+ * 
+ * Site-wide announcements for the home page, newest first.
+ * 
+ * @returns Promise<PostWithData[]> - Announced posts
  */
-export const fetchPostByTopicSlug = async (slug: string): Promise<PostWithData[]> => {
-    // Prisma query: find many posts matching the criteria
+export const fetchAnnouncements = async (): Promise<PostWithData[]> => {
     return prisma.post.findMany({
-        // where - filter condition (only posts in this topic)
-        where: {
-            // topic: { slug } - nested condition
-            // This finds posts where the related topic has this slug
-            // Prisma automatically joins the Topic table
-            topic: { slug }  // Shorthand for: topic: { slug: slug }
-        },
-        // include - include related data in the results
-        include: {
-            // topic: { select: { slug: true } } - include topic, but only the slug field
-            // This gives us the slug needed to build URLs
-            topic: { select: { slug: true } },
-            
-            // _count: { select: { comments: true } } - include comment count
-            // _count is a Prisma feature that counts related records
-            // This gives us the number of comments without loading all comments
-            _count: { select: { comments: true } },
-            
-            // user: { select: { name: true } } - include user, but only the name field
-            // This gives us the author's name for display
-            user: { select: { name: true } }
-        },
-        // orderBy - sort the results
-        orderBy: {
-            createdAt: "desc"  // Sort by creation date, descending (newest first)
-        }
+        where: { announcedAt: { not: null } },
+        include: postListInclude,
+        orderBy: [{ announcedAt: "desc" }, { id: "desc" }]
     });
 }
 
+/**
+ * TypeScript Type: TopPostsWindow
+ * 
+ * Time window for the top posts ranking:
+ * - "today": posts from the last 24 hours
+ * - "week": posts from the last 7 days
+ * - "all": every post
+ */
+export type TopPostsWindow = "today" | "week" | "all";
+
+/**
+ * Helper Function: windowStart
+ * 
+ * Converts a TopPostsWindow into the earliest createdAt that is included.
+ * 
+ * @param timeWindow - The requested time window
+ * @returns Date | undefined - Start of the window (undefined = no limit)
+ */
+const windowStart = (timeWindow: TopPostsWindow): Date | undefined => {
+    const DAY = 24 * 60 * 60 * 1000;  // One day in milliseconds
+
+    if (timeWindow === "today") {
+        return new Date(Date.now() - DAY);
+    }
+    if (timeWindow === "week") {
+        return new Date(Date.now() - 7 * DAY);
+    }
+    return undefined;
+}
+
 /**
  * Query Function: fetchTopPosts
  * 
- * Fetches the top 5 posts ordered by number of comments.
+ * Fetches one page of top posts, ranked by the database.
  * Used on the homepage to show most discussed posts.
  * 
- * Uses Prisma to:
- * - Order posts by comment count (descending)
- * - Include related data (topic, comment count, user)
- * - Limit results to 5 posts (take: 5)
- * 
- * @returns Promise<PostWithData[]> - Array of top 5 posts with related data
- */
-export const fetchTopPosts = async (): Promise<PostWithData[]> => {
-    // Prisma query: find many posts, ordered by comment count
-    // First, get all posts with their comment counts
-    const posts = await prisma.post.findMany({
-        // include - include related data
-        include: {
-            // Include topic slug for building URLs
-            topic: { select: { slug: true } },
-            
-            // Include comment count (needed for sorting and display)
-            _count: { select: { comments: true } },
-            
-            // Include author name
-            user: { select: { name: true } }
-        }
-    });
-    
-    // Sort posts by comment count (descending) and creation date (newest first)
-    // This ensures posts with most comments appear first
-    // If comment counts are equal, newer posts appear first
-    const sortedPosts = posts.sort((a, b) => {
-        // First, sort by comment count (descending)
-        const commentDiff = b._count.comments - a._count.comments;
-        if (commentDiff !== 0) {
-            return commentDiff;
-        }
-        // If comment counts are equal, sort by creation date (newest first)
-        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-    });
-    
-    // Return top 5 posts
-    return sortedPosts.slice(0, 5);
+ * Ranking (all done in SQL):
+ * 1. Score (descending)
+ * 2. Number of comments (descending)
+ * 3. Creation date (newest first)
+ * 4. Id - tie breaker so the order (and the cursor) is always stable
+ * 
+ * Paging uses the shared cursor contract (see paginatePosts).
+ * 
+ * @param options.timeWindow - "today", "week" or "all" (default)
+ * @param options.cursor - Id of the last post already shown (optional)
+ * @param options.take - Page size (default 5)
+ * @returns Promise<PostPage> - Posts of this page and the next cursor
+ */
+export const fetchTopPosts = async ({
+    timeWindow = "all",
+    cursor,
+    take = 5
+}: PageOptions & { timeWindow?: TopPostsWindow } = {}): Promise<PostPage> => {
+    const since = windowStart(timeWindow);
+
+    return paginatePosts(
+        // where - only posts inside the time window
+        since ? { createdAt: { gte: since } } : {},
+        // orderBy - ranking, evaluated by the database
+        [
+            { score: "desc" },
+            { comments: { _count: "desc" } },
+            { createdAt: "desc" },
+            { id: "desc" }
+        ],
+        { cursor, take }
+    );
 }
 
 /**
- * Query Function: fetchPostBySearch
+ * Query Function: fetchPostsByUserId
  * 
- * Searches for posts by title or content.
- * Uses Prisma's OR condition to search both fields.
+ * One page of a user's posts, newest first (public profile page).
  * 
- * @param term - The search term to look for
- * @returns Promise<PostWithData[]> - Array of matching posts with related data
+ * @param userId - Author
+ * @param options.cursor - Id of the last post of the previous page (optional)
+ * @param options.take - Page size (default POST_PAGE_SIZE)
+ * @returns Promise<PostPage> - Posts of this page and the next cursor
  */
-export const fetchPostBySearch = async (term: string): Promise<PostWithData[]> => {
-    // Prisma query: find many posts matching search criteria
-    return prisma.post.findMany({
-        // include - include related data
-        include: {
-            // Include topic slug for building URLs
-            topic: { select: { slug: true } },
-            
-            // Include comment count
-            _count: { select: { comments: true } },
-            
-            // Include author name
-            user: { select: { name: true } }
-        },
-        // where - filter condition (search criteria)
-        where: {
-            // OR - matches if ANY of the conditions are true
-            OR: [
-                // { title: { contains: term } } - search in title field
-                // contains - case-sensitive partial match (SQL LIKE)
-                // Example: term="react" matches "React Native" or "Introduction to React"
-                { title: { contains: term } },
-                
-                // { content: { contains: term } } - search in content field
-                // Searches the post body/content
-                { content: { contains: term } }
-            ]
-            // A post matches if the term appears in EITHER title OR content
-        },
-        // orderBy - sort the results
-        orderBy: {
-            createdAt: "desc"  // Sort by creation date, descending (newest first)
-        }
-    });
+export const fetchPostsByUserId = async (
+    userId: string,
+    page: PageOptions = {}
+): Promise<PostPage> => {
+    return paginatePosts({ userId }, postOrderBy("new"), page);
 }
@@ -0,0 +1,118 @@
+// lib/query/report.ts
+//
+// Report queries for the moderation queue and the reporter's profile.
+
+// Import Prisma types
+import type { Prisma } from "@prisma/client";
+
+// Import Prisma client instance
+import { prisma } from "..";
+
+// Staff see every report, topic staff only their topics'
+import { isStaff, type Actor } from "../permissions";
+
+/**
+ * Select for a report in the moderation queue
+ * The reported content may be gone already - the snapshot is always there.
+ */
+const queueReportSelect = {
+    id: true,
+    reason: true,
+    details: true,
+    snapshot: true,
+    postId: true,
+    commentId: true,
+    createdAt: true,
+    reporter: { select: { id: true, name: true } },
+    author: { select: { id: true, name: true } },
+    topic: { select: { slug: true } },
+    post: { select: { id: true, title: true } },
+    comment: { select: { id: true, postId: true, deletedAt: true } }
+} satisfies Prisma.ReportSelect;
+
+/**
+ * TypeScript Type: QueueReport
+ *
+ * One open report with the reporter, the author and the reported content
+ */
+export type QueueReport = Prisma.ReportGetPayload<{ select: typeof queueReportSelect }>;
+
+/**
+ * Query Function: fetchOpenReports
+ *
+ * Open reports the actor may handle, oldest first.
+ * - Admins and site moderators → every open report
+ * - Everyone else              → reports in topics they own or moderate
+ *
+ * @param actor - The moderator (session.user)
+ * @returns Promise<QueueReport[]> - Open reports
+ */
+export const fetchOpenReports = async (actor: Actor): Promise<QueueReport[]> => {
+    if (!actor) {
+        return [];
+    }
+
+    return prisma.report.findMany({
+        where: {
+            status: "OPEN",
+            ...(isStaff(actor) ? {} : {
+                topic: {
+                    OR: [
+                        { ownerId: actor.id },
+                        { moderators: { some: { userId: actor.id } } }
+                    ]
+                }
+            })
+        },
+        select: queueReportSelect,
+        orderBy: { createdAt: "asc" }
+    });
+}
+
+/**
+ * Query Function: fetchReportsByReporter
+ *
+ * Reports a user has filed, newest first, with the decision taken on each.
+ *
+ * @param userId - Reporter
+ * @returns Promise - Reports with topic, post and resolver
+ */
+export const fetchReportsByReporter = async (userId: string) => {
+    return prisma.report.findMany({
+        where: { reporterId: userId },
+        select: {
+            id: true,
+            reason: true,
+            snapshot: true,
+            status: true,
+            resolution: true,
+            resolvedAt: true,
+            createdAt: true,
+            topic: { select: { slug: true } },
+            post: { select: { id: true, title: true } },
+            comment: { select: { id: true, postId: true } }
+        },
+        orderBy: { createdAt: "desc" }
+    });
+}
+
+/**
+ * Query Function: fetchWarnings
+ *
+ * Warnings a user has received, newest first.
+ *
+ * @param userId - Warned user
+ * @returns Promise - Warnings with the moderator's name
+ */
+export const fetchWarnings = async (userId: string) => {
+    return prisma.userWarning.findMany({
+        where: { userId },
+        select: {
+            id: true,
+            reason: true,
+            createdAt: true,
+            moderator: { select: { name: true } }
+        },
+        orderBy: { createdAt: "desc" }
+    });
+}
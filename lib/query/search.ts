@@ -0,0 +1,266 @@
+// lib/query/search.ts
+//
+// Full-text search over posts and comments.
+// Uses PostgreSQL's tsvector columns (see the full_text_search migration),
+// so matching is case-insensitive, stemmed ("reacting" finds "React")
+// and ranked by relevance, with post titles weighted highest.
+
+// Import Prisma namespace for tagged SQL templates
+import { Prisma } from "@prisma/client";
+
+// Import Prisma client instance
+import { prisma } from "..";
+
+// Shared pagination contract
+import type { Page, PageOptions } from "./post";
+
+/**
+ * Highlight markers
+ *
+ * ts_headline wraps every matched word in these control characters.
+ * Users can still write them (pasted text, direct requests), so they are
+ * removed from titles and bodies before highlighting - then the page can
+ * split on them safely instead of trusting HTML coming from the database.
+ */
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+/**
+ * ts_headline options
+ *
+ * Titles are short - highlight every match.
+ * Bodies are cut down to a couple of short fragments around the matches.
+ */
+const TITLE_HEADLINE = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, HighlightAll=true`;
+const SNIPPET_HEADLINE = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "`;
+
+/**
+ * TypeScript Type: SearchResult
+ *
+ * One search hit - either a post or a comment.
+ *
+ * - id: Id of the post or comment
+ * - postId: Post to link to (the post itself, or the commented post)
+ * - title: Post title, matched words wrapped in highlight markers
+ * - snippet: Excerpt of the body, matched words wrapped in highlight markers
+ * - authorId / authorName: Who wrote it (the profile link)
+ * - rank: Relevance (higher is better)
+ */
+export type SearchResult = {
+    type: "post" | "comment";
+    id: string;
+    postId: string;
+    slug: string;
+    title: string;
+    snippet: string;
+    authorId: string;
+    authorName: string | null;
+    createdAt: Date;
+    rank: number;
+}
+
+/**
+ * TypeScript Type: SearchFilters
+ *
+ * A parsed search (see app/action/search-query.ts for the syntax).
+ *
+ * - text: Free text for full-text matching (may be empty when filtering only)
+ * - topic: Topic slug
+ * - author: Author name (case-insensitive, exact)
+ * - after / before: Created on or after / before this day (YYYY-MM-DD, UTC)
+ * - type: Only posts or only comments
+ */
+export type SearchFilters = {
+    text: string;
+    topic?: string;
+    author?: string;
+    after?: string;
+    before?: string;
+    type?: "post" | "comment";
+}
+
+/**
+ * TypeScript Type: SearchPage
+ *
+ * One page of search results plus the cursor for the next page.
+ */
+export type SearchPage = Page<SearchResult>;
+
+/**
+ * Default page size for search results
+ */
+export const SEARCH_PAGE_SIZE = 20;
+
+/**
+ * Helper Function: parseOffset
+ *
+ * Relevance ranks are floats, so search pages are counted by position.
+ * The cursor is the number of results already shown.
+ *
+ * @param cursor - Cursor from the URL (optional)
+ * @returns number - Offset to start from (0 when missing or invalid)
+ */
+const parseOffset = (cursor?: string): number => {
+    const offset = Number(cursor);
+
+    return Number.isInteger(offset) && offset > 0 ? offset : 0;
+}
+
+/**
+ * Helper Function: filterConditions
+ *
+ * SQL conditions shared by the post and the comment half of the search.
+ * Topic and author are joined as t / u, the date is the row's createdAt.
+ *
+ * @param filters - Parsed search
+ * @param createdAt - createdAt column of the searched row
+ * @returns Prisma.Sql[] - Conditions to AND together
+ */
+const filterConditions = (filters: SearchFilters, createdAt: Prisma.Sql): Prisma.Sql[] => {
+    const conditions: Prisma.Sql[] = [];
+
+    if (filters.topic) {
+        conditions.push(Prisma.sql`t."slug" = ${filters.topic}`);
+    }
+    if (filters.author) {
+        conditions.push(Prisma.sql`lower(u."name") = lower(${filters.author})`);
+    }
+    if (filters.after) {
+        // On or after the start of that day
+        conditions.push(Prisma.sql`${createdAt} >= ${new Date(filters.after)}`);
+    }
+    if (filters.before) {
+        // Strictly before the start of that day
+        conditions.push(Prisma.sql`${createdAt} < ${new Date(filters.before)}`);
+    }
+
+    return conditions;
+}
+
+/**
+ * Query Function: fetchSearchResults
+ *
+ * Searches posts and comments, most relevant first.
+ *
+ * Text syntax (websearch_to_tsquery):
+ * - react hooks      → both words (in any form: "hook", "hooks", "hooked")
+ * - "server actions" → exact phrase
+ * - react or vue     → either word
+ * - react -native    → exclude a word
+ *
+ * Filters (topic, author, dates, type) narrow the results further.
+ * Without any text, every row matching the filters is returned, newest first.
+ *
+ * Ranking:
+ * - ts_rank_cd - matches in post titles (weight A) count more than
+ *   matches in post or comment bodies (weight B)
+ * - Ties are broken by date and id so paging stays stable
+ *
+ * Deleted comments (tombstones) are never returned.
+ *
+ * @param filters - Parsed search (text + filters)
+ * @param options.cursor - Number of results already shown (optional)
+ * @param options.take - Page size (default SEARCH_PAGE_SIZE)
+ * @returns Promise<SearchPage> - Results of this page and the next cursor
+ */
+export const fetchSearchResults = async (
+    filters: SearchFilters,
+    { cursor, take = SEARCH_PAGE_SIZE }: PageOptions = {}
+): Promise<SearchPage> => {
+    const offset = parseOffset(cursor);
+    const hasText = filters.text.trim() !== "";
+
+    /**
+     * Column helpers
+     * With text: match, highlight and rank against the query
+     * Without text: plain title, start of the body, no ranking
+     * Highlight markers written by users are dropped either way
+     */
+    const matches = (vector: Prisma.Sql) =>
+        hasText ? [Prisma.sql`${vector} @@ search.query`] : [];
+    const plain = (column: Prisma.Sql) =>
+        Prisma.sql`translate(${column}, ${HIGHLIGHT_START + HIGHLIGHT_END}, '')`;
+    const headline = (column: Prisma.Sql, options: string) =>
+        hasText ? Prisma.sql`ts_headline('english', ${plain(column)}, search.query, ${options})` : plain(column);
+    const snippet = (column: Prisma.Sql) =>
+        hasText ? headline(column, SNIPPET_HEADLINE) : Prisma.sql`left(${plain(column)}, 200)`;
+    const rank = (vector: Prisma.Sql) =>
+        hasText ? Prisma.sql`ts_rank_cd(${vector}, search.query)` : Prisma.sql`0::real`;
+
+    // One SELECT per searched type (skipped when filtered by type)
+    const selects: Prisma.Sql[] = [];
+
+    if (filters.type !== "comment") {
+        const where = [
+            ...matches(Prisma.sql`p."searchVector"`),
+            ...filterConditions(filters, Prisma.sql`p."createdAt"`)
+        ];
+
+        selects.push(Prisma.sql`
+            SELECT
+                'post' AS "type",
+                p."id",
+                p."id" AS "postId",
+                t."slug",
+                ${headline(Prisma.sql`p."title"`, TITLE_HEADLINE)} AS "title",
+                ${snippet(Prisma.sql`p."content"`)} AS "snippet",
+                u."id" AS "authorId",
+                u."name" AS "authorName",
+                p."createdAt",
+                ${rank(Prisma.sql`p."searchVector"`)} AS "rank"
+            FROM "Post" p
+            JOIN "Topic" t ON t."id" = p."topicId"
+            JOIN "User" u ON u."id" = p."userId"
+            CROSS JOIN search
+            ${where.length > 0 ? Prisma.sql`WHERE ${Prisma.join(where, " AND ")}` : Prisma.empty}
+        `);
+    }
+
+    if (filters.type !== "post") {
+        const where = [
+            Prisma.sql`c."deletedAt" IS NULL`,
+            ...matches(Prisma.sql`c."searchVector"`),
+            ...filterConditions(filters, Prisma.sql`c."createdAt"`)
+        ];
+
+        selects.push(Prisma.sql`
+            SELECT
+                'comment' AS "type",
+                c."id",
+                c."postId",
+                t."slug",
+                p."title",
+                ${snippet(Prisma.sql`c."content"`)} AS "snippet",
+                u."id" AS "authorId",
+                u."name" AS "authorName",
+                c."createdAt",
+                ${rank(Prisma.sql`c."searchVector"`)} AS "rank"
+            FROM "Comment" c
+            JOIN "Post" p ON p."id" = c."postId"
+            JOIN "Topic" t ON t."id" = p."topicId"
+            JOIN "User" u ON u."id" = c."userId"
+            CROSS JOIN search
+            WHERE ${Prisma.join(where, " AND ")}
+        `);
+    }
+
+    const rows = await prisma.$queryRaw<SearchResult[]>(Prisma.sql`
+        WITH search AS (
+            SELECT websearch_to_tsquery('english', ${filters.text}) AS query
+        )
+        SELECT * FROM (
+            ${Prisma.join(selects, " UNION ALL ")}
+        ) results
+        ORDER BY "rank" DESC, "createdAt" DESC, "id" DESC
+        LIMIT ${take + 1}
+        OFFSET ${offset}
+    `);
+
+    // More rows than requested means there is another page
+    const hasMore = rows.length > take;
+
+    return {
+        items: hasMore ? rows.slice(0, take) : rows,
+        nextCursor: hasMore ? String(offset + take) : null
+    };
+}
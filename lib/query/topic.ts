@@ -0,0 +1,109 @@
+// lib/query/topic.ts
+//
+// Topic queries shared by pages and server actions.
+
+// Import Prisma types
+import type { Prisma } from "@prisma/client";
+
+// Import Prisma client instance
+import { prisma } from "..";
+
+/**
+ * Select for the people who run a topic
+ * Matches TopicRoles in lib/permissions.ts - use it wherever
+ * `can()` needs to know the topic's owner and moderators.
+ */
+export const topicRolesSelect = {
+    ownerId: true,
+    moderators: { select: { userId: true } }
+} satisfies Prisma.TopicSelect;
+
+/**
+ * Select for the topic sidebar - owner and moderators with display data
+ */
+const topicTeamSelect = {
+    ...topicRolesSelect,
+    owner: { select: { id: true, name: true, image: true } },
+    moderators: {
+        select: {
+            userId: true,
+            user: { select: { id: true, name: true, image: true } }
+        },
+        orderBy: { createdAt: "asc" }
+    }
+} satisfies Prisma.TopicSelect;
+
+/**
+ * TypeScript Type: TopicTeam
+ *
+ * Topic owner and moderators with display data
+ */
+export type TopicTeam = Prisma.TopicGetPayload<{ select: typeof topicTeamSelect }>;
+
+/**
+ * Query Function: fetchTopicTeam
+ *
+ * Loads the owner and moderators of a topic.
+ *
+ * @param topicId - Topic id
+ * @returns Promise<TopicTeam | null> - Owner + moderators (null if the topic is gone)
+ */
+export const fetchTopicTeam = async (topicId: string): Promise<TopicTeam | null> => {
+    return prisma.topic.findUnique({
+        where: { id: topicId },
+        select: topicTeamSelect
+    });
+}
+
+/**
+ * Query Function: fetchModeratedTopics
+ *
+ * Topics a user owns or moderates.
+ *
+ * @param userId - User id
+ * @returns Promise<{ slug }[]> - Topics, alphabetically
+ */
+export const fetchModeratedTopics = async (userId: string) => {
+    return prisma.topic.findMany({
+        where: {
+            OR: [
+                { ownerId: userId },
+                { moderators: { some: { userId } } }
+            ]
+        },
+        select: { slug: true },
+        orderBy: { slug: "asc" }
+    });
+}
+
+/**
+ * Query Function: findAliasedTopicSlug
+ *
+ * Current slug of a topic that used to be called `slug` (renamed topics
+ * keep their old names as aliases, so old links keep working).
+ *
+ * @param slug - Former topic slug
+ * @returns Promise<string | null> - Current slug, or null if no topic had that name
+ */
+export const findAliasedTopicSlug = async (slug: string): Promise<string | null> => {
+    const alias = await prisma.topicAlias.findUnique({
+        where: { slug },
+        select: { topic: { select: { slug: true } } }
+    });
+
+    return alias?.topic.slug ?? null;
+}
+
+/**
+ * Query Function: fetchTopicOptions
+ *
+ * Every topic for pickers (moving a post), alphabetically.
+ *
+ * @returns Promise<{ slug, name }[]> - Topics
+ */
+export const fetchTopicOptions = async () => {
+    return prisma.topic.findMany({
+        select: { slug: true, name: true },
+        orderBy: { slug: "asc" }
+    });
+}
@@ -0,0 +1,190 @@
+// lib/query/user.ts
+//
+// User lookups shared by server actions.
+
+// Import Prisma client instance
+import { prisma } from "..";
+import type { Prisma } from "@prisma/client";
+
+// Mention handles ("Jane Doe" → "Jane_Doe") and finding them in Markdown
+import { extractMentions, handlePieces, mentionHandle } from "../mentions";
+
+/**
+ * Query Function: findUserByNameOrEmail
+ *
+ * Finds exactly one user from what someone typed into a form.
+ * - Contains "@" → exact email match (case-insensitive)
+ * - Otherwise    → exact name match (case-insensitive), only if the name is unique
+ *
+ * @param input - Name or email
+ * @returns Promise<{ id, name, role } | null> - The user, or null if none / ambiguous
+ */
+export const findUserByNameOrEmail = async (input: string) => {
+    const value = input.trim();
+
+    if (!value) {
+        return null;
+    }
+
+    const users = await prisma.user.findMany({
+        where: value.includes("@")
+            ? { email: { equals: value, mode: "insensitive" } }
+            : { name: { equals: value, mode: "insensitive" } },
+        select: { id: true, name: true, role: true },
+        // Two matches are enough to know the name is ambiguous
+        take: 2
+    });
+
+    return users.length === 1 ? users[0] : null;
+}
+
+/**
+ * Helper Function: handleCandidates
+ *
+ * Filter for users whose name may have the given handle (or handle prefix).
+ * The pieces between underscores appear unchanged in the name - the first
+ * one at its start, unless the name starts with a character written as "_".
+ * Handles of the candidates still have to be compared (mentionHandle).
+ *
+ * @param handle - Handle without the "@" ("Jane_O_Neil")
+ * @returns Prisma.UserWhereInput | null - Filter, or null for a handle without pieces
+ */
+const handleCandidates = (handle: string): Prisma.UserWhereInput | null => {
+    const pieces = handlePieces(handle);
+
+    if (pieces.length === 0) {
+        return null;
+    }
+
+    return {
+        AND: pieces.map((piece, index) => ({
+            name: index === 0 && !handle.startsWith("_")
+                ? { startsWith: piece, mode: "insensitive" as const }
+                : { contains: piece, mode: "insensitive" as const }
+        }))
+    };
+}
+
+/**
+ * Query Function: findMentionedUsers
+ *
+ * Resolves @mention handles (see lib/mentions.ts) to users.
+ * Handles matching no user, or several users, are left out.
+ *
+ * @param handles - Handles without the "@" ("Jane_Doe")
+ * @returns Promise<{ id, name, handle }[]> - One user per resolved handle
+ */
+export const findMentionedUsers = async (handles: string[]) => {
+    // "Jane_O_Neil" can be "Jane O'Neil", "Jane O Neil", "Jane_O_Neil"...
+    // so candidates are fetched and their handles compared below
+    const candidates = handles.flatMap((handle) => handleCandidates(handle) ?? []);
+
+    if (candidates.length === 0) {
+        return [];
+    }
+
+    const users = await prisma.user.findMany({
+        where: { OR: candidates },
+        select: { id: true, name: true }
+    });
+
+    return handles.flatMap((handle) => {
+        const key = handle.toLowerCase();
+        const matches = users.filter((user) =>
+            user.name !== null && mentionHandle(user.name).toLowerCase() === key
+        );
+
+        return matches.length === 1 ? [{ ...matches[0], handle }] : [];
+    });
+}
+
+/**
+ * TypeScript Type: MentionLinks
+ *
+ * Lowercased mention handle → id of the mentioned user
+ * (renderMarkdown turns these mentions into profile links)
+ */
+export type MentionLinks = Map<string, string>;
+
+/**
+ * Query Function: resolveMentionLinks
+ *
+ * Resolves the mentions of several texts at once - a whole comment
+ * thread costs one query instead of one per comment.
+ *
+ * @param contents - Markdown of posts / comments
+ * @returns Promise<MentionLinks> - Users mentioned anywhere in them
+ */
+export const resolveMentionLinks = async (contents: string[]): Promise<MentionLinks> => {
+    const handles = new Map<string, string>();
+
+    for (const content of contents) {
+        for (const handle of extractMentions(content)) {
+            handles.set(handle.toLowerCase(), handle);
+        }
+    }
+
+    const users = await findMentionedUsers([...handles.values()]);
+
+    return new Map(users.map((user) => [user.handle.toLowerCase(), user.id]));
+}
+
+/**
+ * Query Function: searchUsersByName
+ *
+ * Users whose mention handle starts with what was typed after "@"
+ * (mention autocomplete). Underscores stand for spaces and other
+ * characters a handle can't hold, like in mention handles.
+ *
+ * @param prefix - Typed handle prefix ("Jane_O")
+ * @param take - Most users returned
+ * @returns Promise<{ id, name, image }[]> - Matching users, alphabetically
+ */
+export const searchUsersByName = async (prefix: string, take = 8) => {
+    const value = prefix.trim().toLowerCase();
+    const candidates = handleCandidates(value);
+
+    if (!candidates) {
+        return [];
+    }
+
+    // Handles of the candidates are compared below
+    const users = await prisma.user.findMany({
+        where: candidates,
+        select: { id: true, name: true, image: true },
+        orderBy: { name: "asc" },
+        // Room for candidates whose handle doesn't start with the prefix
+        take: take * 5
+    });
+
+    return users
+        .filter((user) => user.name !== null && mentionHandle(user.name).toLowerCase().startsWith(value))
+        .slice(0, take);
+}
+
+/**
+ * Query Function: fetchUserProfile
+ *
+ * Public part of a user (the /users/[id] profile page).
+ * Deleted comments don't count.
+ *
+ * @param id - User id from the URL
+ * @returns Promise<{ id, name, image, createdAt, _count } | null> - The user, or null if unknown
+ */
+export const fetchUserProfile = async (id: string) => {
+    return prisma.user.findUnique({
+        where: { id },
+        select: {
+            id: true,
+            name: true,
+            image: true,
+            createdAt: true,
+            _count: {
+                select: {
+                    posts: true,
+                    comments: { where: { deletedAt: null } }
+                }
+            }
+        }
+    });
+}
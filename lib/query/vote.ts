@@ -0,0 +1,58 @@
+// Import Prisma client instance
+// ".." means go up one directory (from lib/query to lib)
+// prisma is the database client that lets us query the database
+import { prisma } from "..";
+
+/**
+ * TypeScript Type: ViewerVotes
+ * 
+ * Map of post/comment id -> the viewer's vote on it (1 or -1).
+ * Items the viewer hasn't voted on are simply missing from the map.
+ */
+export type ViewerVotes = Record<string, number>;
+
+/**
+ * Query Function: fetchViewerVotes
+ * 
+ * Fetches the current user's votes for a list of posts or comments in ONE query.
+ * Used by lists (post list, comment tree) so each item can highlight
+ * the arrow the viewer already clicked.
+ * 
+ * @param userId - The viewing user (undefined = not logged in, no votes)
+ * @param target - Either { postIds } or { commentIds } to look up
+ * @returns Promise<ViewerVotes> - Map of item id -> vote value
+ */
+export const fetchViewerVotes = async (
+    userId: string | undefined,
+    target: { postIds: string[] } | { commentIds: string[] }
+): Promise<ViewerVotes> => {
+    // Logged out viewers have no votes
+    if (!userId) {
+        return {};
+    }
+
+    // Prisma query: the viewer's votes on the given items
+    const votes = await prisma.vote.findMany({
+        where: 'postIds' in target
+            ? { userId, postId: { in: target.postIds } }
+            : { userId, commentId: { in: target.commentIds } },
+        select: {
+            postId: true,
+            commentId: true,
+            value: true
+        }
+    });
+
+    // Turn the list into an id -> value map
+    const result: ViewerVotes = {};
+
+    for (const vote of votes) {
+        const id = vote.postId ?? vote.commentId;
+
+        if (id) {
+            result[id] = vote.value;
+        }
+    }
+
+    return result;
+}
@@ -40,3 +40,22 @@ export function cn(...inputs: ClassValue[]) {
   // This ensures the final className is clean and correct
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Utility Function: isDay
+ *
+ * Checks a YYYY-MM-DD value that is also a real calendar day
+ * (search filters, audit log filters).
+ *
+ * @param value - Value to check
+ * @returns boolean - true for e.g. "2026-01-31", false for "2026-02-31"
+ */
+export function isDay(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
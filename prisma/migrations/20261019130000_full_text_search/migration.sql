@@ -0,0 +1,18 @@
+-- AlterTable
+-- Generated search documents, kept up to date by PostgreSQL on every write.
+-- The 'english' configuration stems words ("reacting" matches "react").
+ALTER TABLE "Post" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("content", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("content", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Post_searchVector_idx" ON "Post" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Comment_searchVector_idx" ON "Comment" USING GIN ("searchVector");
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Topic" ADD COLUMN     "ownerId" TEXT;
+
+-- CreateTable
+CREATE TABLE "TopicModerator" (
+    "id" TEXT NOT NULL,
+    "topicId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TopicModerator_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TopicModerator_userId_idx" ON "TopicModerator"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TopicModerator_topicId_userId_key" ON "TopicModerator"("topicId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "Topic" ADD CONSTRAINT "Topic_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TopicModerator" ADD CONSTRAINT "TopicModerator_topicId_fkey" FOREIGN KEY ("topicId") REFERENCES "Topic"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TopicModerator" ADD CONSTRAINT "TopicModerator_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
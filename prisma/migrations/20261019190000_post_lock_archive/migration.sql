@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "lastActivityAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "lockedAt" TIMESTAMP(3);
+
+-- Backfill: last activity is the newest comment, or the post itself
+UPDATE "Post" p
+SET "lastActivityAt" = GREATEST(
+    p."createdAt",
+    COALESCE((SELECT MAX(c."createdAt") FROM "Comment" c WHERE c."postId" = p."id"), p."createdAt")
+);
+
+-- CreateIndex
+CREATE INDEX "Post_archivedAt_lastActivityAt_idx" ON "Post"("archivedAt", "lastActivityAt");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN     "announcedAt" TIMESTAMP(3),
+ADD COLUMN     "pinnedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Post_topicId_pinnedAt_idx" ON "Post"("topicId", "pinnedAt");
+
+-- CreateIndex
+CREATE INDEX "Post_announcedAt_idx" ON "Post"("announcedAt");
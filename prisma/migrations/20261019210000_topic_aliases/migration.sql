@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "TopicAlias" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "topicId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TopicAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TopicAlias_slug_key" ON "TopicAlias"("slug");
+
+-- CreateIndex
+CREATE INDEX "TopicAlias_topicId_idx" ON "TopicAlias"("topicId");
+
+-- AddForeignKey
+ALTER TABLE "TopicAlias" ADD CONSTRAINT "TopicAlias_topicId_fkey" FOREIGN KEY ("topicId") REFERENCES "Topic"("id") ON DELETE CASCADE ON UPDATE CASCADE;
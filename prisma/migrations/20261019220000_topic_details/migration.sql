@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "TopicColor" AS ENUM ('GRAY', 'RED', 'ORANGE', 'AMBER', 'GREEN', 'TEAL', 'SKY', 'BLUE', 'VIOLET', 'PINK');
+
+-- AlterTable
+ALTER TABLE "Topic" ADD COLUMN     "color" "TopicColor" NOT NULL DEFAULT 'GRAY',
+ADD COLUMN     "icon" TEXT,
+ADD COLUMN     "name" TEXT,
+ADD COLUMN     "rules" TEXT;
+
+-- CreateTable
+CREATE TABLE "TopicLink" (
+    "id" TEXT NOT NULL,
+    "topicId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "TopicLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TopicLink_topicId_position_idx" ON "TopicLink"("topicId", "position");
+
+-- AddForeignKey
+ALTER TABLE "TopicLink" ADD CONSTRAINT "TopicLink_topicId_fkey" FOREIGN KEY ("topicId") REFERENCES "Topic"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN     "movedAt" TIMESTAMP(3),
+ADD COLUMN     "movedById" TEXT,
+ADD COLUMN     "movedFromId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Post" ADD CONSTRAINT "Post_movedFromId_fkey" FOREIGN KEY ("movedFromId") REFERENCES "Topic"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Post" ADD CONSTRAINT "Post_movedById_fkey" FOREIGN KEY ("movedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "EmailFrequency" AS ENUM ('OFF', 'IMMEDIATE', 'DAILY', 'WEEKLY');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "emailFrequency" "EmailFrequency" NOT NULL DEFAULT 'OFF',
+ADD COLUMN     "lastDigestAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN     "emailedAt" TIMESTAMP(3);
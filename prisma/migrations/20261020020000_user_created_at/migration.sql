@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing users: the join date wasn't recorded - use their first post or comment
+UPDATE "User" u
+SET "createdAt" = first."createdAt"
+FROM (
+    SELECT "userId", MIN("createdAt") AS "createdAt"
+    FROM (
+        SELECT "userId", "createdAt" FROM "Post"
+        UNION ALL
+        SELECT "userId", "createdAt" FROM "Comment"
+    ) activity
+    GROUP BY "userId"
+) first
+WHERE first."userId" = u."id";
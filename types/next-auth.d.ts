@@ -1,16 +1,19 @@
 // types/next-auth.d.ts
 //
 // TypeScript declaration file for extending NextAuth types.
-// This file extends the default NextAuth Session type to include user.id.
+// This file extends the default NextAuth Session type to include user.id and user.role.
 
 // Import NextAuth module to extend its types
 // This tells TypeScript we're modifying types from the "next-auth" package
 import "next-auth";
 
+// Role enum generated from prisma/schema.prisma (ADMIN, MODERATOR, MEMBER)
+import type { Role } from "@prisma/client";
+
 /**
  * Module Augmentation for NextAuth
  * 
- * This extends NextAuth's default Session type to include user.id.
+ * This extends NextAuth's default Session type to include user.id and user.role.
  * 
  * Why is this needed?
  * - By default, NextAuth's Session.user doesn't include an id field
@@ -37,15 +40,28 @@ declare module "next-auth" {
      * 
      * Contains:
      * - id: string (required) - User ID from database (added by us)
+     * - role: Role (required) - User role from database (added by us)
      * - name?: string | null (optional) - User's display name
      * - email?: string | null (optional) - User's email address
      * - image?: string | null (optional) - User's profile image URL
      */
     user: {
       id: string;              // Required: User ID (added by session callback)
+      role: Role;              // Required: User role (added by session callback)
       name?: string | null;    // Optional: User's display name
       email?: string | null;    // Optional: User's email address
       image?: string | null;   // Optional: User's profile image URL
     };
   }
+
+  /**
+   * Extended User Interface
+   *
+   * The user record the Prisma adapter loads from the database.
+   * It has a role column, so the session callback can read user.role.
+   * Optional because @auth/prisma-adapter's own user type doesn't know about it.
+   */
+  interface User {
+    role?: Role;
+  }
 }